@@ -0,0 +1,10 @@
+import { Context } from '@koishijs/client'
+import Page from './page.vue'
+
+export default (ctx: Context) => {
+  ctx.page({
+    name: '图库管理',
+    path: '/image-selector',
+    component: Page,
+  })
+}
@@ -0,0 +1,83 @@
+import { Context, Dict } from 'koishi'
+
+import { basename, join } from 'node:path'
+
+import { Config } from '.'
+import { Storage } from './storage'
+
+export interface AliasEntry {
+  // 目录名之外额外添加的别名，可以包含 "-"
+  added?: string[]
+  // 从目录名中移除的别名
+  removed?: string[]
+}
+
+// 别名清单：以相对于图库路径的目录名为键，与“主名-别名1-别名2”的目录命名方式叠加生效
+export class AliasStore {
+  private entries: Dict<AliasEntry> = {}
+
+  constructor(private ctx: Context, private config: Config, private storage: Storage) {}
+
+  get path() {
+    return join(this.config.imagePath, this.config.aliasFile)
+  }
+
+  async load() {
+    try {
+      this.entries = JSON.parse((await this.storage.read(this.path)).toString('utf8'))
+    } catch (error) {
+      if (error?.code !== 'ENOENT') {
+        this.ctx.logger.warn('读取别名清单失败:', error)
+      }
+      this.entries = {}
+    }
+  }
+
+  async save() {
+    // 清理空条目，保持清单整洁
+    for (const [name, entry] of Object.entries(this.entries)) {
+      if (!entry.added?.length && !entry.removed?.length) delete this.entries[name]
+    }
+    await this.storage.write(this.path, Buffer.from(JSON.stringify(this.entries, null, 2)))
+  }
+
+  // 计算文件夹的全部别名，第一个为主名
+  resolve(folderName: string) {
+    const entry = this.entries[folderName] || {}
+    const removed = new Set(entry.removed || [])
+    const aliases = [...basename(folderName).split('-'), ...entry.added || []]
+    return [...new Set(aliases.filter(alias => alias && !removed.has(alias)))]
+  }
+
+  add(folderName: string, alias: string) {
+    const entry = this.entries[folderName] ||= {}
+    entry.removed = entry.removed?.filter(name => name !== alias)
+    if (!this.resolve(folderName).includes(alias)) {
+      (entry.added ||= []).push(alias)
+    }
+  }
+
+  remove(folderName: string, alias: string) {
+    const entry = this.entries[folderName] ||= {}
+    entry.added = entry.added?.filter(name => name !== alias)
+    if (basename(folderName).split('-').includes(alias) && !entry.removed?.includes(alias)) {
+      (entry.removed ||= []).push(alias)
+    }
+  }
+
+  // 取出指定文件夹及其子文件夹的清单条目，用于导出
+  pick(folderNames: string[]) {
+    const result: Dict<AliasEntry> = {}
+    for (const [name, entry] of Object.entries(this.entries)) {
+      if (folderNames.some(folder => name === folder || name.startsWith(`${folder}/`))) {
+        result[name] = entry
+      }
+    }
+    return result
+  }
+
+  // 文件夹被删除或合并后移除其清单条目
+  drop(folderName: string) {
+    delete this.entries[folderName]
+  }
+}
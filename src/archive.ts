@@ -0,0 +1,250 @@
+import { Unzip, UnzipInflate, Zip, ZipPassThrough } from 'fflate'
+
+import { pipeline, Readable } from 'node:stream'
+import { createGunzip } from 'node:zlib'
+
+export type ArchiveFormat = 'zip' | 'tar'
+
+export interface ArchiveEntry {
+  // 以 "/" 分隔的相对路径，如 "猫图-mt/a.png"
+  path: string
+  data: Buffer
+}
+
+export const ARCHIVE_MIME: Record<ArchiveFormat, string> = {
+  zip: 'application/zip',
+  tar: 'application/x-tar',
+}
+
+const BLOCK = 512
+
+// 压缩包中的路径不能跳出导入目录
+function normalizeEntryPath(path: string) {
+  const parts = path.replace(/\\/g, '/').split('/').filter(part => part && part !== '.')
+  if (parts.includes('..')) return
+  return parts.join('/')
+}
+
+function octal(value: number, length: number) {
+  return value.toString(8).padStart(length - 1, '0') + '\0'
+}
+
+function tarHeader(path: string, size: number, type: string, mtime: number) {
+  const header = Buffer.alloc(BLOCK)
+  header.write(path, 0, 100, 'utf8')
+  header.write(octal(0o644, 8), 100, 'latin1')
+  header.write(octal(0, 8), 108, 'latin1')
+  header.write(octal(0, 8), 116, 'latin1')
+  header.write(octal(size, 12), 124, 'latin1')
+  header.write(octal(mtime, 12), 136, 'latin1')
+  header.write(type, 156, 'latin1')
+  header.write('ustar\x0000', 257, 'latin1')
+  // 计算校验和时校验和字段视为空格
+  header.fill(' ', 148, 156)
+  let checksum = 0
+  for (const byte of header) checksum += byte
+  header.write(octal(checksum, 7) + ' ', 148, 'latin1')
+  return header
+}
+
+function padding(size: number) {
+  return Buffer.alloc((BLOCK - size % BLOCK) % BLOCK)
+}
+
+function paxHeader(path: string, mtime: number) {
+  let record = ` path=${path}\n`
+  // 记录长度包含长度字段本身
+  let length = Buffer.byteLength(record)
+  length += String(length + String(length).length).length
+  record = `${length}${record}`
+  const pax = Buffer.from(record)
+  return Buffer.concat([tarHeader('PaxHeader', pax.length, 'x', mtime), pax, padding(pax.length)])
+}
+
+// 逐个写入文件的压缩包，生成的数据依次交给 write 输出，内存中只保留当前文件
+export class ArchiveWriter {
+  private zip: Zip
+  private chunks: Uint8Array[] = []
+  private error: Error
+  private mtime = Math.floor(Date.now() / 1000)
+
+  constructor(format: ArchiveFormat, private write: (chunk: Uint8Array) => Promise<void>) {
+    if (format === 'zip') {
+      this.zip = new Zip((error, chunk) => {
+        if (error) this.error = error
+        else this.chunks.push(chunk)
+      })
+    }
+  }
+
+  // 输出 fflate 同步生成的数据
+  private async drain() {
+    if (this.error) throw this.error
+    const chunks = this.chunks
+    this.chunks = []
+    for (const chunk of chunks) await this.write(chunk)
+  }
+
+  async add(path: string, data: Buffer) {
+    if (this.zip) {
+      // 图片和视频本身已经压缩，只打包不压缩
+      const file = new ZipPassThrough(path)
+      this.zip.add(file)
+      file.push(data, true)
+      return this.drain()
+    }
+    // 超出 ustar 长度限制或包含非 ASCII 字符的路径使用 PAX 扩展头记录
+    if (Buffer.byteLength(path) > 100 || /[^\x20-\x7e]/.test(path)) {
+      await this.write(paxHeader(path, this.mtime))
+    }
+    await this.write(tarHeader(path, data.length, '0', this.mtime))
+    await this.write(data)
+    await this.write(padding(data.length))
+  }
+
+  async end() {
+    if (this.zip) {
+      this.zip.end()
+      return this.drain()
+    }
+    await this.write(Buffer.alloc(BLOCK * 2))
+  }
+}
+
+// 从数据流中按需读取指定长度的数据
+class StreamReader {
+  private chunks: Buffer[] = []
+  private length = 0
+  private done = false
+
+  constructor(private iterator: AsyncIterator<Uint8Array>) {}
+
+  private async fill(length: number) {
+    while (this.length < length && !this.done) {
+      const { value, done } = await this.iterator.next()
+      if (done) {
+        this.done = true
+      } else {
+        this.chunks.push(Buffer.from(value.buffer, value.byteOffset, value.byteLength))
+        this.length += value.byteLength
+      }
+    }
+  }
+
+  // 查看开头的数据但不取出，剩余数据不足时返回全部
+  async peek(length: number) {
+    await this.fill(length)
+    const data = this.chunks.length === 1 ? this.chunks[0] : Buffer.concat(this.chunks)
+    this.chunks = data.length ? [data] : []
+    return data.subarray(0, length)
+  }
+
+  async read(length: number) {
+    const data = await this.peek(length)
+    const rest = this.chunks[0]?.subarray(data.length)
+    this.chunks = rest?.length ? [rest] : []
+    this.length -= data.length
+    return data
+  }
+
+  // 依次取出剩余的全部数据
+  async *rest() {
+    yield* this.chunks
+    this.chunks = []
+    this.length = 0
+    while (true) {
+      const { value, done } = await this.iterator.next()
+      if (done) return
+      yield value
+    }
+  }
+}
+
+function readString(block: Buffer, offset: number, length: number) {
+  const end = block.indexOf(0, offset)
+  return block.toString('utf8', offset, end < 0 || end > offset + length ? offset + length : end)
+}
+
+async function readTar(reader: StreamReader, onEntry: (entry: ArchiveEntry) => Promise<void>) {
+  let longPath: string
+  while (true) {
+    const header = await reader.read(BLOCK)
+    if (header.length < BLOCK || header.every(byte => byte === 0)) break
+
+    const size = parseInt(readString(header, 124, 12).trim() || '0', 8)
+    const type = String.fromCharCode(header[156] || 0x30)
+    const body = await reader.read(size)
+    await reader.read((BLOCK - size % BLOCK) % BLOCK)
+
+    if (type === 'x') {
+      const match = body.toString('utf8').match(/^\d+ path=(.*)$/m)
+      if (match) longPath = match[1]
+    } else if (type === 'L') {
+      // GNU tar 的长文件名
+      longPath = readString(body, 0, body.length)
+    } else {
+      const prefix = readString(header, 345, 155)
+      const name = readString(header, 0, 100)
+      const path = longPath ?? (prefix ? `${prefix}/${name}` : name)
+      longPath = undefined
+      if (type === '0' || type === '\0') await onEntry({ path, data: body })
+    }
+  }
+}
+
+async function readZip(reader: StreamReader, onEntry: (entry: ArchiveEntry) => Promise<void>) {
+  // fflate 同步回调解压完成的文件，在每段数据之后依次处理
+  const entries: ArchiveEntry[] = []
+  let error: Error
+  const unzip = new Unzip()
+  unzip.register(UnzipInflate)
+  unzip.onfile = (file) => {
+    if (file.name.endsWith('/')) return
+    const chunks: Uint8Array[] = []
+    file.ondata = (err, data, final) => {
+      if (err) {
+        error ||= err
+        return
+      }
+      chunks.push(data)
+      if (final) entries.push({ path: file.name, data: Buffer.concat(chunks) })
+    }
+    file.start()
+  }
+
+  const flush = async () => {
+    if (error) throw error
+    while (entries.length) await onEntry(entries.shift())
+  }
+  for await (const chunk of reader.rest()) {
+    unzip.push(chunk)
+    await flush()
+  }
+  unzip.push(new Uint8Array(0), true)
+  await flush()
+}
+
+// 根据文件头识别 zip、tar 或 tar.gz，逐个读取其中的文件，内存中只保留当前文件
+// 不支持的格式返回 false
+export async function readArchive(source: AsyncIterable<Uint8Array>, onEntry: (entry: ArchiveEntry) => Promise<void>): Promise<boolean> {
+  const reader = new StreamReader(source[Symbol.asyncIterator]())
+  const head = await reader.peek(BLOCK)
+
+  const emit = async (entry: ArchiveEntry) => {
+    const path = normalizeEntryPath(entry.path)
+    // 忽略 macOS 打包时附带的资源文件
+    if (!path || path.startsWith('__MACOSX/') || path.split('/').pop().startsWith('._')) return
+    await onEntry({ path, data: entry.data })
+  }
+
+  if (head.subarray(0, 4).equals(Buffer.from([0x50, 0x4b, 0x03, 0x04]))) {
+    await readZip(reader, emit)
+  } else if (head[0] === 0x1f && head[1] === 0x8b) {
+    return readArchive(pipeline(Readable.from(reader.rest()), createGunzip(), () => {}), onEntry)
+  } else if (head.toString('latin1', 257, 262) === 'ustar') {
+    await readTar(reader, emit)
+  } else {
+    return false
+  }
+  return true
+}
@@ -0,0 +1,82 @@
+import { Context } from 'koishi'
+
+import { Config } from '.'
+import { GalleryFolder } from './gallery'
+
+declare module 'koishi' {
+  interface Tables {
+    image_selector_channel: ChannelSetting
+  }
+}
+
+export interface ChannelSetting {
+  // 频道标识，如 "onebot:123456"
+  channel: string
+  // 是否允许直接发送别名触发发图
+  passive: boolean
+  // 非空时只有列表中的文件夹可见
+  allow: string[]
+  // 列表中的文件夹不可见
+  deny: string[]
+}
+
+// 每个频道的发图设置，数据库可用时持久化，否则仅保存在内存中
+export class ChannelSettings {
+  private database: Context['database']
+  private cache = new Map<string, ChannelSetting>()
+
+  constructor(private ctx: Context, private config: Config) {
+    ctx.inject(['database'], (ctx) => {
+      ctx.model.extend('image_selector_channel', {
+        channel: 'string',
+        passive: { type: 'boolean', initial: true },
+        allow: 'json',
+        deny: 'json',
+      }, {
+        primary: 'channel',
+      })
+
+      this.database = ctx.database
+      ctx.on('dispose', () => {
+        this.database = null
+      })
+    })
+  }
+
+  async get(channel: string) {
+    if (this.cache.has(channel)) return this.cache.get(channel)
+
+    let setting: ChannelSetting = { channel, passive: true, allow: [], deny: [] }
+    if (this.database) {
+      try {
+        const [record] = await this.database.get('image_selector_channel', { channel })
+        if (record) setting = { ...setting, ...record, allow: record.allow || [], deny: record.deny || [] }
+      } catch (error) {
+        this.ctx.logger.warn('读取频道设置失败:', error)
+      }
+    }
+    this.cache.set(channel, setting)
+    return setting
+  }
+
+  async update(channel: string, update: Partial<Omit<ChannelSetting, 'channel'>>) {
+    const setting = Object.assign(await this.get(channel), update)
+    if (this.database) {
+      await this.database.upsert('image_selector_channel', [setting])
+    }
+    return setting
+  }
+
+  // 文件夹或其任一上级文件夹的目录名、别名出现在列表中即视为命中
+  static matches(folder: GalleryFolder, names: string[]) {
+    for (let node = folder; node; node = node.parent) {
+      if (names.some(name => name === node.name || node.aliases.includes(name))) return true
+    }
+    return false
+  }
+
+  static isVisible(setting: ChannelSetting, folder: GalleryFolder) {
+    if (ChannelSettings.matches(folder, setting.deny)) return false
+    return !setting.allow.length || ChannelSettings.matches(folder, setting.allow)
+  }
+}
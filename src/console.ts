@@ -0,0 +1,55 @@
+import type {} from '@koishijs/plugin-console'
+
+export interface ConsoleFolder {
+  // 相对于图库路径的目录名
+  name: string
+  aliases: string[]
+  // 包含所有子文件夹中的文件
+  count: number
+  depth: number
+}
+
+export interface ConsoleFile {
+  // 相对于所在文件夹的路径
+  name: string
+  // 存储中的完整路径，作为其他接口的参数
+  path: string
+  video: boolean
+}
+
+export interface ConsoleReviewItem extends ConsoleFile {
+  // 存图时的关键词，直接位于临时目录的文件为空字符串
+  group: string
+  time: number
+}
+
+export interface ConsoleUpload {
+  name: string
+  // Base64 编码的文件内容
+  data: string
+}
+
+export interface ConsoleUploadResult {
+  // 实际存入的文件夹，未匹配而存入临时目录时为空
+  folder: string
+  saved: string[]
+  // 每个未保存文件的原因
+  skipped: string[]
+}
+
+// 控制台接口：参数中的路径必须位于图库或临时目录内，操作失败时抛出带有提示的错误
+declare module '@koishijs/plugin-console' {
+  interface Events {
+    'image-selector/folders'(): Promise<ConsoleFolder[]>
+    'image-selector/files'(folder: string): Promise<ConsoleFile[]>
+    // 返回 data URL，无法预览时为空
+    'image-selector/thumbnail'(path: string): Promise<string>
+    'image-selector/aliases'(folder: string, aliases: string[]): Promise<void>
+    // 统一以 console:console 身份上传，不接受客户端指定上传者
+    'image-selector/upload'(keyword: string, files: ConsoleUpload[]): Promise<ConsoleUploadResult>
+    'image-selector/review'(): Promise<ConsoleReviewItem[]>
+    'image-selector/approve'(paths: string[], keyword?: string): Promise<string>
+    'image-selector/remove'(paths: string[]): Promise<string>
+    'image-selector/move'(paths: string[], keyword: string): Promise<string>
+  }
+}
@@ -0,0 +1,265 @@
+import { Context, Dict } from 'koishi'
+import { compareHashes, Jimp } from 'jimp'
+
+import { createHash } from 'node:crypto'
+import { basename, dirname, join } from 'node:path'
+
+import { Config } from '.'
+import { Storage } from './storage'
+
+export interface FileHash {
+  // 内容的 sha256，用于判断完全相同
+  sha256: string
+  // 感知哈希，用于判断压缩或缩放后的相似图片；视频或无法解码的格式为空字符串，未计算时不存在
+  phash?: string
+}
+
+export interface Duplicate {
+  path: string
+  exact: boolean
+}
+
+// 每计算多少个文件保存一次哈希缓存
+const FLUSH_INTERVAL = 50
+
+export function sha256(buffer: Buffer) {
+  return createHash('sha256').update(buffer).digest('hex')
+}
+
+// 文件哈希索引：每个文件夹一份哈希缓存清单，以文件名为键，重启后无需重新解码图片
+// 图库刷新后在后台逐个补全缺失的哈希，存图时只比对已缓存的文件，并限制现场计算的数量
+export class HashIndex {
+  private folders = new Map<string, Promise<Dict<FileHash>>>()
+  private dirty = new Set<string>()
+  private saving: Promise<void> = Promise.resolve()
+  private flushTimer: () => void
+  private queue: string[] = []
+  private running: Promise<void>
+  private disposed = false
+
+  constructor(private ctx: Context, private config: Config, private storage: Storage) {
+    ctx.on('dispose', () => {
+      this.disposed = true
+      this.flushTimer?.()
+      return this.flush()
+    })
+  }
+
+  private file(folder: string) {
+    return join(folder, this.config.hashFile)
+  }
+
+  private load(folder: string) {
+    if (!this.folders.has(folder)) {
+      this.folders.set(folder, this.storage.read(this.file(folder)).then(
+        data => JSON.parse(data.toString('utf8')),
+        (error) => {
+          if (error?.code !== 'ENOENT') {
+            this.ctx.logger.warn('读取哈希缓存失败:', this.file(folder), error)
+          }
+          return {}
+        },
+      ))
+    }
+    return this.folders.get(folder)
+  }
+
+  // 缓存可用：已计算 sha256，需要比对相似图片时也已计算感知哈希
+  private usable(hash: FileHash) {
+    return !!hash && (this.config.dedupeThreshold <= 0 || hash.phash !== undefined)
+  }
+
+  async get(path: string) {
+    const hash = (await this.load(dirname(path)))[basename(path)]
+    return this.usable(hash) ? hash : undefined
+  }
+
+  // 记录已知的文件哈希，如刚保存的文件
+  async set(path: string, hash: FileHash) {
+    const entries = await this.load(dirname(path))
+    entries[basename(path)] = { sha256: hash.sha256, phash: hash.phash }
+    this.markDirty(dirname(path))
+  }
+
+  async forget(path: string) {
+    const entries = await this.load(dirname(path))
+    if (!(basename(path) in entries)) return
+    delete entries[basename(path)]
+    this.markDirty(dirname(path))
+  }
+
+  // 文件移动后同步迁移其哈希
+  async move(source: string, target: string) {
+    const hash = (await this.load(dirname(source)))[basename(source)]
+    await this.forget(source)
+    if (hash) await this.set(target, hash)
+  }
+
+  private markDirty(folder: string) {
+    this.dirty.add(folder)
+    if (this.flushTimer || this.disposed) return
+    this.flushTimer = this.ctx.setTimeout(() => {
+      this.flushTimer = null
+      this.flush()
+    }, 1000)
+  }
+
+  // 写入有变化的哈希缓存，多次调用串行执行
+  flush() {
+    const folders = [...this.dirty]
+    this.dirty.clear()
+    this.saving = this.saving.then(async () => {
+      for (const folder of folders) {
+        const entries = await this.load(folder)
+        try {
+          if (Object.keys(entries).length) {
+            await this.storage.write(this.file(folder), Buffer.from(JSON.stringify(entries)))
+          } else if (await this.storage.exists(this.file(folder))) {
+            await this.storage.remove(this.file(folder))
+          }
+        } catch (error) {
+          this.ctx.logger.warn('保存哈希缓存失败:', this.file(folder), error)
+        }
+      }
+    })
+    return this.saving
+  }
+
+  async hashBuffer(buffer: Buffer): Promise<FileHash> {
+    let phash: string
+    if (this.config.dedupeThreshold > 0) {
+      try {
+        const image = await Jimp.fromBuffer(buffer)
+        phash = image.pHash()
+      } catch {
+        // 视频或不支持的图片格式只做精确比对，记为空字符串以免重复尝试
+        phash = ''
+      }
+    }
+    return { sha256: sha256(buffer), phash }
+  }
+
+  async hashFile(path: string): Promise<FileHash> {
+    const cached = await this.get(path)
+    if (cached) return cached
+    const hash = await this.hashBuffer(await this.storage.read(path))
+    await this.set(path, hash)
+    return hash
+  }
+
+  isSimilar(a: FileHash, b: FileHash) {
+    if (!a.phash || !b.phash || this.config.dedupeThreshold <= 0) return false
+    return compareHashes(a.phash, b.phash) <= this.config.dedupeThreshold
+  }
+
+  // 在候选文件中查找与给定哈希重复的文件，优先返回完全相同的文件
+  // 未缓存的候选文件最多现场计算 dedupeHashLimit 个，其余留给后台计算
+  async findDuplicate(hash: FileHash, paths: string[]): Promise<Duplicate | undefined> {
+    let similar: Duplicate
+    let budget = this.config.dedupeHashLimit > 0 ? this.config.dedupeHashLimit : Infinity
+    for (const path of paths) {
+      let other = await this.get(path)
+      if (!other) {
+        if (budget <= 0) continue
+        budget--
+        try {
+          other = await this.hashFile(path)
+        } catch {
+          continue
+        }
+      }
+      if (other.sha256 === hash.sha256) return { path, exact: true }
+      if (!similar && this.isSimilar(hash, other)) similar = { path, exact: false }
+    }
+    return similar
+  }
+
+  // 在后台补全指定文件的哈希，并清理已不存在的文件的缓存；再次调用时以新的文件列表为准
+  index(paths: string[]) {
+    this.queue = paths
+    this.running ||= this.work().finally(() => {
+      this.running = null
+    })
+    return this.running
+  }
+
+  private async work() {
+    while (this.queue.length && !this.disposed) {
+      const paths = this.queue
+      this.queue = []
+
+      const byFolder = new Map<string, Set<string>>()
+      for (const path of paths) {
+        if (!byFolder.has(dirname(path))) byFolder.set(dirname(path), new Set())
+        byFolder.get(dirname(path)).add(basename(path))
+      }
+      for (const [folder, names] of byFolder) {
+        const entries = await this.load(folder)
+        for (const name of Object.keys(entries)) {
+          if (names.has(name)) continue
+          delete entries[name]
+          this.markDirty(folder)
+        }
+      }
+
+      let computed = 0
+      for (const path of paths) {
+        // 有新的文件列表时重新开始
+        if (this.queue.length || this.disposed) break
+        if (await this.get(path)) continue
+        try {
+          await this.hashFile(path)
+        } catch (error) {
+          this.ctx.logger.debug('计算文件哈希失败:', path, error)
+        }
+        if (++computed % FLUSH_INTERVAL === 0) await this.flush()
+        // 解码图片会占用主线程，每个文件之间让出事件循环
+        await new Promise(resolve => setTimeout(resolve, 10))
+      }
+      if (computed) this.ctx.logger.debug(`已在后台计算 ${computed} 个文件的哈希`)
+    }
+    await this.flush()
+  }
+
+  // 将文件分组为重复集合：完全相同的文件跨目录比对，相似图片只在同一目录内比对
+  async groupDuplicates(folders: string[][]) {
+    const groups: string[][] = []
+    const bySha = new Map<string, string[]>()
+
+    for (const paths of folders) {
+      const hashes: [string, FileHash][] = []
+      for (const path of paths) {
+        try {
+          const hash = await this.hashFile(path)
+          hashes.push([path, hash])
+          if (!bySha.has(hash.sha256)) bySha.set(hash.sha256, [])
+          bySha.get(hash.sha256).push(path)
+        } catch (error) {
+          this.ctx.logger.warn('计算文件哈希失败:', path, error)
+        }
+      }
+
+      const grouped = new Set<string>()
+      for (let i = 0; i < hashes.length; i++) {
+        const [path, hash] = hashes[i]
+        if (grouped.has(path)) continue
+        const group = [path]
+        for (let j = i + 1; j < hashes.length; j++) {
+          const [otherPath, other] = hashes[j]
+          if (grouped.has(otherPath) || other.sha256 === hash.sha256) continue
+          if (this.isSimilar(hash, other)) group.push(otherPath)
+        }
+        if (group.length > 1) {
+          group.forEach(path => grouped.add(path))
+          groups.push(group)
+        }
+      }
+    }
+    await this.flush()
+
+    for (const paths of bySha.values()) {
+      if (paths.length > 1) groups.push(paths)
+    }
+    return groups
+  }
+}
@@ -0,0 +1,269 @@
+import { Context, Dict } from 'koishi'
+
+import { basename, extname, join } from 'node:path'
+
+import { Config } from '.'
+import { AliasStore } from './aliases'
+import { isMediaFile, mediaByExtension } from './media'
+import { Storage } from './storage'
+
+declare module 'koishi' {
+  interface Events {
+    'image-selector/refresh'(gallery: Gallery): void
+  }
+}
+
+export interface GalleryFolder {
+  // 相对于图库路径的目录名，如 "猫图-mt"、"角色/猫娘-catgirl"
+  name: string
+  path: string
+  aliases: string[]
+  // 相对于该文件夹的媒体文件路径，包含所有子文件夹中的文件
+  files: string[]
+  // 每个文件的标签：所在各级目录的别名、标签清单中的标签和文件格式
+  tags: Dict<string[]>
+  parent?: GalleryFolder
+  depth: number
+}
+
+// 文件格式标签，如 "gif"、"mp4"，同一格式的不同扩展名统一为格式名
+export function fileFormat(filename: string) {
+  return mediaByExtension(filename)?.name || extname(filename).slice(1).toLowerCase()
+}
+
+// 按标签筛选文件：必须包含全部 include 标签，且不包含任一 exclude 标签
+export function filterByTags(folder: GalleryFolder, include: string[], exclude: string[]) {
+  if (!include.length && !exclude.length) return folder.files
+  return folder.files.filter((file) => {
+    const tags = folder.tags[file] || []
+    return include.every(tag => tags.includes(tag)) && !exclude.some(tag => tags.includes(tag))
+  })
+}
+
+export interface GalleryMatch {
+  folders: GalleryFolder[]
+  alias: string
+  suffix: string
+}
+
+// 输入以别名开头，且别名之后为空、空白或紧跟数量时才算匹配，返回去掉首尾空白的后缀
+// 例如 "猫图 3"、"猫图3" 匹配 "猫图"，而 "猫图片" 不匹配
+export function matchAlias(input: string, alias: string) {
+  if (!alias || !input.startsWith(alias)) return
+  const rest = input.slice(alias.length)
+  if (rest && !/^(\s|\d+(\s|$))/.test(rest)) return
+  return rest.trim()
+}
+
+export interface SendRequest {
+  count: number
+  includeTags: string[]
+  excludeTags: string[]
+}
+
+// 解析别名之后的数量和标签筛选，如 "+gif -表情包 3"，数量不超过 maxout
+// 既不是数量也不是标签的部分会被忽略，如 "abc" 保持数量为 1
+export function parseSendRequest(suffix: string, maxout: number): SendRequest {
+  const result: SendRequest = { count: 1, includeTags: [], excludeTags: [] }
+  for (const token of suffix.split(/\s+/).filter(Boolean)) {
+    if (/^\d+$/.test(token)) {
+      // 数量至少为 1，"猫图 0" 按发送 1 张处理
+      result.count = Math.max(Math.min(parseInt(token, 10), maxout), 1)
+    } else if (/^\+./.test(token)) {
+      result.includeTags.push(token.slice(1))
+    } else if (/^-./.test(token)) {
+      result.excludeTags.push(token.slice(1))
+    }
+  }
+  return result
+}
+
+export class Gallery {
+  folders: GalleryFolder[] = []
+  aliasMap = new Map<string, GalleryFolder[]>()
+  loaded = false
+  store: AliasStore
+
+  private disposeWatch: () => void
+  private pending: Promise<void>
+  private disposeDebounce: () => void
+  private collisions = ''
+
+  constructor(private ctx: Context, private config: Config, public storage: Storage) {
+    this.store = new AliasStore(ctx, config, storage)
+
+    ctx.on('ready', async () => {
+      await this.refresh()
+      if (config.indexWatch) this.watch()
+      if (config.indexRefreshInterval > 0) {
+        ctx.setInterval(() => this.refresh(), config.indexRefreshInterval * 1000)
+      }
+    })
+
+    ctx.on('dispose', () => {
+      this.disposeWatch?.()
+      this.disposeWatch = null
+    })
+  }
+
+  // 重新扫描图库目录，构建别名表和每个文件夹的媒体列表
+  refresh() {
+    // 同一时间只进行一次扫描，并发调用共享结果
+    if (this.pending) return this.pending
+    this.pending = this.scan().finally(() => {
+      this.pending = null
+    })
+    return this.pending
+  }
+
+  private async readTagFile(path: string): Promise<Dict<string[]>> {
+    try {
+      return JSON.parse((await this.storage.read(join(path, this.config.tagFile))).toString('utf8'))
+    } catch (error) {
+      if (error?.code !== 'ENOENT') {
+        this.ctx.logger.warn('读取标签清单失败:', join(path, this.config.tagFile), error)
+      }
+      return {}
+    }
+  }
+
+  // 递归扫描目录，子文件夹同样是可以用别名匹配的文件夹，其别名也会成为文件的标签
+  private async scanFolder(name: string, parent: GalleryFolder, folders: GalleryFolder[]) {
+    const path = join(this.config.imagePath, name)
+    const folder: GalleryFolder = {
+      name,
+      path,
+      aliases: this.store.resolve(name),
+      files: [],
+      tags: {},
+      parent,
+      depth: parent ? parent.depth + 1 : 0,
+    }
+    folders.push(folder)
+
+    const inherited: string[] = []
+    for (let node = folder; node; node = node.parent) inherited.push(...node.aliases)
+    const tagFile = await this.readTagFile(path)
+
+    for (const entry of await this.storage.list(path)) {
+      if (!entry.directory && isMediaFile(entry.name)) {
+        folder.files.push(entry.name)
+        folder.tags[entry.name] = [...new Set([...inherited, ...tagFile[entry.name] || [], fileFormat(entry.name)])]
+      } else if (entry.directory) {
+        const child = await this.scanFolder(`${name}/${entry.name}`, folder, folders)
+        for (const file of child.files) {
+          folder.files.push(`${entry.name}/${file}`)
+          folder.tags[`${entry.name}/${file}`] = child.tags[file]
+        }
+      }
+    }
+    return folder
+  }
+
+  private async scan() {
+    const startTime = Date.now()
+    const folders: GalleryFolder[] = []
+    const aliasMap = new Map<string, GalleryFolder[]>()
+
+    try {
+      await this.store.load()
+      const entries = await this.storage.list(this.config.imagePath)
+      for (const entry of entries) {
+        if (!entry.directory) continue
+        await this.scanFolder(entry.name, null, folders)
+      }
+      for (const folder of folders) {
+        for (const alias of folder.aliases) {
+          if (!aliasMap.has(alias)) aliasMap.set(alias, [])
+          aliasMap.get(alias).push(folder)
+        }
+      }
+    } catch (error) {
+      this.ctx.logger.warn('扫描图库失败:', error)
+      return
+    }
+
+    this.folders = folders
+    this.aliasMap = aliasMap
+    this.loaded = true
+    this.ctx.emit('image-selector/refresh', this)
+
+    // 别名重名只在变化时提示一次，避免定时刷新反复刷屏
+    // 不同父文件夹下的同名子文件夹（如各角色的“表情包”）属于正常情况，只检查顶层文件夹
+    const collisions = [...aliasMap]
+      .filter(([, folders]) => folders.filter(folder => !folder.parent).length > 1)
+      .map(([alias, folders]) => `"${alias}": ${folders.map(folder => folder.name).join(', ')}`)
+      .join('; ')
+    if (collisions && collisions !== this.collisions) {
+      this.ctx.logger.warn(`检测到别名重名: ${collisions}`)
+    }
+    this.collisions = collisions
+
+    if (this.config.debugMode) {
+      const fileCount = this.fileCount
+      this.ctx.logger.info(`图库索引已刷新: ${folders.length} 个文件夹, ${fileCount} 个文件, 耗时 ${Date.now() - startTime}ms`)
+    }
+  }
+
+  private watch() {
+    const onChange = (filename?: string) => {
+      // 哈希缓存和上传记录不影响索引，插件自身频繁写入它们，忽略以免反复刷新
+      const name = filename && basename(filename)
+      if (name === this.config.hashFile || name === this.config.metadataFile) return
+      // 批量写入时会连续触发事件，合并为一次刷新
+      this.disposeDebounce?.()
+      this.disposeDebounce = this.ctx.setTimeout(() => this.refresh(), 1000)
+    }
+
+    // 对象存储等后端不支持监听，仅依赖定时刷新
+    this.disposeWatch = this.storage.watch?.(this.config.imagePath, onChange)
+  }
+
+  // 顶层文件夹，它们的文件互不重叠且覆盖整个图库
+  get roots() {
+    return this.folders.filter(folder => !folder.parent)
+  }
+
+  get fileCount() {
+    return this.roots.reduce((sum, folder) => sum + folder.files.length, 0)
+  }
+
+  // 按目录名查找文件夹
+  get(name: string) {
+    return this.folders.find(folder => folder.name === name)
+  }
+
+  // 精确查找别名对应的文件夹
+  find(keyword: string) {
+    return this.aliasMap.get(keyword) || []
+  }
+
+  // 查找以输入开头的最长别名，返回其对应的所有文件夹和剩余后缀，可用 filter 排除不可见的文件夹
+  match(input: string, filter?: (folder: GalleryFolder) => boolean): GalleryMatch | undefined {
+    let best: GalleryMatch
+    for (const [alias, folders] of this.aliasMap) {
+      if (best && alias.length <= best.alias.length) continue
+      const suffix = matchAlias(input, alias)
+      if (suffix === undefined) continue
+      const visible = filter ? folders.filter(filter) : folders
+      if (!visible.length) continue
+      best = { folders: visible, alias, suffix }
+    }
+    return best
+  }
+
+  // 保存文件后直接更新索引，避免等待下一次扫描
+  addFile(folder: GalleryFolder, filename: string) {
+    if (!isMediaFile(filename)) return
+    const inherited: string[] = []
+    for (let node = folder; node; node = node.parent) inherited.push(...node.aliases)
+    const tags = [...new Set([...inherited, fileFormat(filename)])]
+
+    // 同时加入所有上级文件夹
+    for (let node = folder, file = filename; node; file = `${basename(node.name)}/${file}`, node = node.parent) {
+      if (node.files.includes(file)) continue
+      node.files.push(file)
+      node.tags[file] = tags
+    }
+  }
+}
@@ -1,13 +1,45 @@
-import { Context, Schema, h, Session } from 'koishi'
-
-import { promises as fs } from 'node:fs'
-import { join } from 'node:path'
+import { Context, Dict, Schema, h, Session, Universal } from 'koishi'
+
+import { createReadStream, promises as fs } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { basename, dirname, isAbsolute, join, posix, relative, resolve, sep } from 'node:path'
+import { Readable } from 'node:stream'
+
+import { AliasEntry } from './aliases'
+import { ARCHIVE_MIME, ArchiveEntry, ArchiveFormat, ArchiveWriter, readArchive } from './archive'
+import { ChannelSettings } from './channel'
+import { ConsoleUploadResult } from './console'
+import { Duplicate, FileHash, HashIndex, sha256 } from './dedupe'
+import { filterByTags, Gallery, GalleryFolder, parseSendRequest } from './gallery'
+import { RateLimiter, resolveSizeLimit, SendLimit } from './limits'
+import { Matcher } from './matcher'
+import { detectMedia, extractMedia, HEAD_LENGTH, isMediaFile, MediaFormat, mediaByExtension } from './media'
+import { FileMetadata, MetadataStore } from './metadata'
+import { ImageNormalizer } from './normalize'
+import { QuotaLimit, QuotaManager } from './quota'
+import { ReviewItem, ReviewQueue } from './review'
+import { CronExpression, Scheduler } from './schedule'
+import { SentMessages } from './sent'
+import { ShuffleBag } from './shuffle'
+import { Statistics } from './stats'
+import { createStorage } from './storage'
+import { displayPath, renderFilename, sanitizeFilename, uniquePath } from './utils'
 
 export const name = 'image-selector'
 export const inject = {
-  required: ['http', 'logger']
+  required: ['http', 'logger'],
+  optional: ['console', 'database'],
 };
 
+// 导入预览中最多列出的跳过项
+const IMPORT_SKIP_LINES = 20
+
+// 存图回复中最多列出的跳过原因条数
+const SKIP_DETAIL_LINES = 5
+
+// 连续收集模式的结束词
+const BATCH_DONE = ['完成', '结束', 'done']
+
 export const usage = `
 ---
 
@@ -24,11 +56,83 @@ export interface Config {
   saveCommandName: string
   sendCommandName: string
   saveFailFallback: boolean
+  dedupeMode: 'off' | 'folder' | 'library'
+  dedupeThreshold: number
+  dedupeHashLimit: number
+  hashFile: string
+  dedupeCommandName: string
+  dedupeAuthority: number
+  reviewCommandName: string
+  reviewAuthority: number
+  reviewTrustAuthority: number
+  reviewPageSize: number
+  reviewThumbnailSize: number
   listCommandName: string
+  listShowCount: boolean
+  channelCommandName: string
+  channelAuthority: number
+  aliasCommandName: string
+  aliasAuthority: number
+  aliasFile: string
+  reloadCommandName: string
+  reloadAuthority: number
+  indexWatch: boolean
+  indexRefreshInterval: number
+  tagFile: string
 
   userLimits: { userId: string; sizeLimit: number }[]
   groupLimits: { guildId: string; sizeLimit: number }[]
+  sendUserLimits: (SendLimit & { userId: string })[]
+  sendGroupLimits: (SendLimit & { guildId: string })[]
+  sendChannelLimits: (SendLimit & { channelId: string })[]
+  sendFolderLimits: (SendLimit & { folder: string })[]
+  rateLimitReply: boolean
+  quotaCommandName: string
+  quotaUserLimits: (QuotaLimit & { userId: string })[]
+  quotaGroupLimits: (QuotaLimit & { guildId: string })[]
+  quotaGuildLimits: (QuotaLimit & { guildId: string })[]
+  quotaFolderLimits: (QuotaLimit & { folder: string })[]
   maxout: number
+  fuzzyMatch: boolean
+  fuzzyPassive: boolean
+  fuzzyPinyin: boolean
+  fuzzySuggestDistance: number
+  statsEnabled: boolean
+  statsCommandName: string
+  statsTopCount: number
+  metadataFile: string
+  provenanceCommandName: string
+  provenanceAuthority: number
+  provenanceAdminAuthority: number
+  manageCommandName: string
+  manageAuthority: number
+  sentHistoryDays: number
+  scheduleCommandName: string
+  scheduleAuthority: number
+  consoleAuthority: number
+  exportCommandName: string
+  importCommandName: string
+  archiveAuthority: number
+  archiveFormat: ArchiveFormat
+  archiveSendLimit: number
+  normalizeEnabled: boolean
+  normalizeMaxSize: number
+  normalizeFormat: 'original' | 'jpg' | 'png' | 'webp'
+  normalizeQuality: number
+  normalizeSkipFolders: string[]
+  randomMode: 'shuffle' | 'random'
+  outputMode: 'sequential' | 'combined' | 'forward'
+  forwardPlatforms: string[]
+  outputCaption: boolean
+  storage: 'local' | 's3'
+  s3Endpoint?: string
+  s3Region?: string
+  s3Bucket?: string
+  s3AccessKeyId?: string
+  s3SecretAccessKey?: string
+  s3ForcePathStyle?: boolean
+  s3SendMode?: 'url' | 'buffer'
+  s3UrlExpires?: number
   debugMode: boolean
 }
 
@@ -36,12 +140,46 @@ export const Config: Schema<Config> =
   Schema.intersect([
     Schema.object({
       listCommandName: Schema.string().default('图库列表').description('图库列表指令名称'),
+      listShowCount: Schema.boolean().default(false).description('图库列表中显示每个文件夹的文件数量'),
     }).description('图库列表'),
+    Schema.object({
+      channelCommandName: Schema.string().default('图库设置').description('频道设置指令名称'),
+      channelAuthority: Schema.natural().default(3).description('修改频道设置所需的权限等级（群主和群管理员也可修改）'),
+    }).description('频道设置'),
+    Schema.object({
+      aliasCommandName: Schema.string().default('别名').description('别名管理指令名称'),
+      aliasAuthority: Schema.natural().default(3).description('使用别名管理指令所需的权限等级'),
+      aliasFile: Schema.string().default('aliases.json').description('别名清单文件名（位于图库路径下），与目录名中的别名叠加生效'),
+    }).description('别名管理'),
+    Schema.object({
+      reloadCommandName: Schema.string().default('图库刷新').description('手动刷新图库索引指令名称'),
+      reloadAuthority: Schema.natural().default(3).description('手动刷新图库索引所需的权限等级'),
+      indexWatch: Schema.boolean().default(true).description('监听图库目录变化并自动刷新索引'),
+      indexRefreshInterval: Schema.number().min(0).default(600).description('定时刷新图库索引的间隔 (秒)，0 为关闭'),
+      tagFile: Schema.string().default('tags.json').description('标签清单文件名，放在任意文件夹中，格式为 { "文件名": ["标签1", "标签2"] }'),
+    }).description('图库索引'),
     Schema.object({
       sendCommandName: Schema.string().default('发图').description('发图指令名称'),
       maxout: Schema.number().default(5).description('一次最大输出图片数量'),
+      randomMode: Schema.union([
+        Schema.const('shuffle').description('洗牌：每个频道发完整个文件夹后才会重复'),
+        Schema.const('random').description('纯随机：每张独立抽取，可能重复'),
+      ]).default('shuffle').description('随机发图方式。洗牌模式的发送记录在数据库可用时会持久化'),
+      outputMode: Schema.union([
+        Schema.const('sequential').description('逐条发送'),
+        Schema.const('combined').description('合并为一条消息（视频仍单独发送）'),
+        Schema.const('forward').description('合并转发'),
+      ]).default('sequential').description('一次发送多张图片时的发送方式'),
+      forwardPlatforms: Schema.array(String).default(['onebot', 'chronocat', 'red']).description('支持合并转发的平台，其他平台退化为逐条发送'),
+      outputCaption: Schema.boolean().default(false).description('在每张图片前附加文件夹名和文件序号，如 "猫图 12/340"'),
       imagePath: Schema.string().required().description('图片库路径').role('textarea', { rows: [2, 4] }),
     }).description('发图功能'),
+    Schema.object({
+      fuzzyMatch: Schema.boolean().default(true).description('发图指令和存图指令启用模糊匹配（忽略大小写和全角半角）'),
+      fuzzyPassive: Schema.boolean().default(false).description('直接发送别名触发发图时也启用模糊匹配（仅忽略大小写和全角半角，不使用拼音和建议）'),
+      fuzzyPinyin: Schema.boolean().default(true).description('模糊匹配时支持拼音全拼和首字母，如 "maotu"、"mt" 匹配 "猫图"'),
+      fuzzySuggestDistance: Schema.natural().default(2).description('匹配失败时提示“你是不是想找”的最大编辑距离，0 为关闭'),
+    }).description('模糊匹配'),
     Schema.object({
       saveCommandName: Schema.string().default('存图').description('存图指令名称'),
       tempPath: Schema.string().required().description('临时存储路径').role('textarea', { rows: [2, 4] }),
@@ -50,6 +188,37 @@ export const Config: Schema<Config> =
       promptTimeout: Schema.number().default(30).description('等待用户发送图片的超时时间 (秒)'),
       saveFailFallback: Schema.boolean().default(true).description('匹配关键词失败时是否保存到临时目录（关闭则直接取消保存）'),
     }).description('存图功能'),
+    Schema.object({
+      dedupeMode: Schema.union([
+        Schema.const('off').description('关闭'),
+        Schema.const('folder').description('仅比对目标文件夹'),
+        Schema.const('library').description('比对整个图库'),
+      ]).default('folder').description('存图时的重复检测范围'),
+      dedupeThreshold: Schema.number().min(0).max(1).step(0.01).default(0.1).description('相似图片判定阈值（感知哈希差异比例，0 为仅检测完全相同的文件）'),
+      dedupeHashLimit: Schema.natural().default(20).description('每次存图最多现场计算哈希的已有文件数量，其余文件由后台逐步计算后再参与比对，0 为不限制'),
+      hashFile: Schema.string().default('hashes.json').description('哈希缓存文件名（位于每个文件夹中），保存已计算的文件哈希，重启后无需重新计算'),
+      dedupeCommandName: Schema.string().default('图库查重').description('扫描图库重复文件指令名称'),
+      dedupeAuthority: Schema.natural().default(3).description('扫描和删除重复文件所需的权限等级'),
+    }).description('重复检测'),
+    Schema.object({
+      normalizeEnabled: Schema.boolean().default(false).description('存图前处理图片：去除 EXIF 等元数据、限制尺寸并重新编码（动图和视频不处理）'),
+      normalizeMaxSize: Schema.natural().default(2048).description('图片最长边上限 (像素)，超出时等比缩小，0 为不限制'),
+      normalizeFormat: Schema.union([
+        Schema.const('original').description('保持原格式'),
+        Schema.const('jpg').description('JPEG'),
+        Schema.const('png').description('PNG'),
+        Schema.const('webp').description('WebP'),
+      ]).default('original').description('重新编码的目标格式'),
+      normalizeQuality: Schema.natural().min(1).max(100).default(85).description('JPEG 和 WebP 的编码质量'),
+      normalizeSkipFolders: Schema.array(String).default([]).description('不处理的文件夹（目录名或别名，包含其子文件夹）'),
+    }).description('图片处理'),
+    Schema.object({
+      reviewCommandName: Schema.string().default('审核').description('审核临时目录指令名称'),
+      reviewAuthority: Schema.natural().default(3).description('使用审核指令所需的权限等级'),
+      reviewTrustAuthority: Schema.natural().default(0).description('权限等级低于此值的用户存入已有文件夹的图片也需要审核，0 为关闭'),
+      reviewPageSize: Schema.natural().min(1).default(10).description('审核列表每页显示的文件数量'),
+      reviewThumbnailSize: Schema.natural().min(16).default(200).description('审核列表缩略图的最大边长 (像素)'),
+    }).description('审核功能'),
     Schema.object({
       userLimits: Schema.array(Schema.object({
         userId: Schema.string().required().description('用户ID'),
@@ -64,6 +233,130 @@ export const Config: Schema<Config> =
         .description('群组上传限制列表 (MB)。可包含 guildId 为 "default" 的项作为默认限制。')
         .default([{ guildId: 'default', sizeLimit: 0 }]),
     }).description('权限设置'),
+    Schema.object({
+      sendUserLimits: Schema.array(Schema.object({
+        userId: Schema.string().required().description('用户ID'),
+        maxCount: Schema.natural().default(0).description('窗口内最多发送张数'),
+        period: Schema.natural().default(60).description('时间窗口(秒)'),
+        cooldown: Schema.natural().default(0).description('冷却(秒)'),
+      })).role('table')
+        .description('用户发图频率限制，每个用户单独计数。可包含 userId 为 "default" 的项作为默认限制。张数为 0 代表不限制。')
+        .default([{ userId: 'default', maxCount: 0, period: 60, cooldown: 0 }]),
+      sendGroupLimits: Schema.array(Schema.object({
+        guildId: Schema.string().required().description('群组ID'),
+        maxCount: Schema.natural().default(0).description('窗口内最多发送张数'),
+        period: Schema.natural().default(60).description('时间窗口(秒)'),
+        cooldown: Schema.natural().default(0).description('冷却(秒)'),
+      })).role('table')
+        .description('群组内用户的发图频率限制，每个用户单独计数，优先级与上传限制相同。可包含 guildId 为 "default" 的项作为群组默认限制。')
+        .default([]),
+      sendChannelLimits: Schema.array(Schema.object({
+        channelId: Schema.string().required().description('频道ID'),
+        maxCount: Schema.natural().default(0).description('窗口内最多发送张数'),
+        period: Schema.natural().default(60).description('时间窗口(秒)'),
+        cooldown: Schema.natural().default(0).description('冷却(秒)'),
+      })).role('table')
+        .description('频道发图频率限制，频道内所有用户共同计数。可包含 channelId 为 "default" 的项作为默认限制。')
+        .default([]),
+      sendFolderLimits: Schema.array(Schema.object({
+        folder: Schema.string().required().description('文件夹名或别名'),
+        maxCount: Schema.natural().default(0).description('窗口内最多发送张数'),
+        period: Schema.natural().default(60).description('时间窗口(秒)'),
+        cooldown: Schema.natural().default(0).description('冷却(秒)'),
+      })).role('table')
+        .description('文件夹发图频率限制，在每个频道内单独计数。可包含 folder 为 "default" 的项作为默认限制。')
+        .default([]),
+      rateLimitReply: Schema.boolean().default(true).description('触发频率限制时是否回复提示（关闭则静默忽略）'),
+    }).description('发图频率限制'),
+    Schema.object({
+      quotaCommandName: Schema.string().default('存图额度').description('查询存图额度指令名称'),
+      quotaUserLimits: Schema.array(Schema.object({
+        userId: Schema.string().required().description('用户ID'),
+        maxFiles: Schema.natural().default(0).description('最多文件数'),
+        maxSize: Schema.number().min(0).step(0.1).default(0).description('最多占用空间(MB)'),
+      })).role('table')
+        .description('用户累计存图额度，按上传记录统计该用户保存的全部文件（包括临时目录和待审核文件）。可包含 userId 为 "default" 的项作为默认额度。设置为 0 代表不限制。')
+        .default([]),
+      quotaGroupLimits: Schema.array(Schema.object({
+        guildId: Schema.string().required().description('群组ID'),
+        maxFiles: Schema.natural().default(0).description('最多文件数'),
+        maxSize: Schema.number().min(0).step(0.1).default(0).description('最多占用空间(MB)'),
+      })).role('table')
+        .description('群组内用户的累计存图额度，每个用户单独计数，优先级与上传限制相同。可包含 guildId 为 "default" 的项作为群组默认额度。')
+        .default([]),
+      quotaGuildLimits: Schema.array(Schema.object({
+        guildId: Schema.string().required().description('群组ID'),
+        maxFiles: Schema.natural().default(0).description('最多文件数'),
+        maxSize: Schema.number().min(0).step(0.1).default(0).description('最多占用空间(MB)'),
+      })).role('table')
+        .description('群组累计存图额度，群组内所有用户共同计数。可包含 guildId 为 "default" 的项作为默认额度。')
+        .default([]),
+      quotaFolderLimits: Schema.array(Schema.object({
+        folder: Schema.string().required().description('文件夹名或别名'),
+        maxFiles: Schema.natural().default(0).description('最多文件数'),
+        maxSize: Schema.number().min(0).step(0.1).default(0).description('最多占用空间(MB)'),
+      })).role('table')
+        .description('文件夹容量上限，统计文件夹（包括子文件夹）中的全部文件。可包含 folder 为 "default" 的项作为默认上限。')
+        .default([]),
+    }).description('存图额度'),
+    Schema.object({
+      statsEnabled: Schema.boolean().default(true).description('记录发图和存图统计（数据库可用时持久化，否则仅保留最近 10000 条）'),
+      statsCommandName: Schema.string().default('图库统计').description('统计指令名称'),
+      statsTopCount: Schema.natural().min(1).default(10).description('排行榜显示的条目数量'),
+    }).description('使用统计'),
+    Schema.object({
+      metadataFile: Schema.string().default('metadata.json').description('上传记录清单文件名（位于每个文件夹中），记录上传者、来源、原始链接和哈希等信息'),
+      provenanceCommandName: Schema.string().default('图库溯源').description('查询图片来源指令名称'),
+      provenanceAuthority: Schema.natural().default(1).description('查询图片来源所需的权限等级'),
+      provenanceAdminAuthority: Schema.natural().default(3).description('按上传者查询和批量删除所需的权限等级'),
+    }).description('上传记录'),
+    Schema.object({
+      manageCommandName: Schema.string().default('图库管理').description('通过引用消息管理图片的指令名称'),
+      manageAuthority: Schema.natural().default(3).description('删除、移动图片或移回审核队列所需的权限等级（上传者可删除自己上传的文件）'),
+      sentHistoryDays: Schema.natural().min(1).default(7).description('记住已发送消息对应文件的天数（数据库可用时生效，否则仅保留最近 1000 条）'),
+    }).description('图库管理'),
+    Schema.object({
+      scheduleCommandName: Schema.string().default('定时发图').description('定时发图指令名称'),
+      scheduleAuthority: Schema.natural().default(3).description('管理定时发图所需的权限等级'),
+    }).description('定时发图'),
+    Schema.object({
+      exportCommandName: Schema.string().default('图库导出').description('导出压缩包指令名称'),
+      importCommandName: Schema.string().default('图库导入').description('导入压缩包指令名称'),
+      archiveAuthority: Schema.natural().default(4).description('导入和导出所需的权限等级（导出可写入服务器上的任意路径）'),
+      archiveFormat: Schema.union([
+        Schema.const('zip').description('zip'),
+        Schema.const('tar').description('tar'),
+      ]).default('zip').description('默认导出格式'),
+      archiveSendLimit: Schema.number().min(0).step(0.1).default(100).description('通过聊天发送导出压缩包的大小上限(MB)，超出时需使用 -o 写入服务器，0 为不限制'),
+    }).description('导入导出'),
+    Schema.object({
+      consoleAuthority: Schema.natural().default(4).description('使用控制台图库页面所需的权限等级（需要安装控制台插件，未安装登录插件时不做限制）'),
+    }).description('控制台'),
+    Schema.object({
+      storage: Schema.union([
+        Schema.const('local').description('本地文件系统'),
+        Schema.const('s3').description('S3 兼容的对象存储'),
+      ]).default('local').description('图库存储后端。使用对象存储时图库路径和临时存储路径为对象键前缀，如 "gallery"、"temp"'),
+    }).description('存储后端'),
+    Schema.union([
+      Schema.object({
+        storage: Schema.const('s3').required(),
+        s3Endpoint: Schema.string().required().description('服务地址，如 "https://s3.amazonaws.com"、"http://127.0.0.1:9000"'),
+        s3Region: Schema.string().default('us-east-1').description('区域'),
+        s3Bucket: Schema.string().required().description('存储桶名称'),
+        s3AccessKeyId: Schema.string().required().description('Access Key ID'),
+        s3SecretAccessKey: Schema.string().role('secret').required().description('Secret Access Key'),
+        s3ForcePathStyle: Schema.boolean().default(true).description('使用路径形式访问存储桶（MinIO 等自建服务通常需要开启）'),
+        s3SendMode: Schema.union([
+          Schema.const('url').description('发送带签名的临时链接'),
+          Schema.const('buffer').description('下载后直接发送文件内容'),
+        ]).default('url').description('发图方式。平台无法访问存储服务时请选择下载后发送'),
+        s3UrlExpires: Schema.natural().min(1).default(3600).description('临时链接有效期 (秒)'),
+      }),
+      Schema.object({
+        storage: Schema.const('local'),
+      }),
+    ]),
     Schema.object({
       debugMode: Schema.boolean().default(false).description('启用调试日志模式').experimental(),
     }).description('调试模式'),
@@ -80,51 +373,39 @@ export function apply(ctx: Context, config: Config) {
     }
   }
 
-  const getFileExtension = (file: any, imgType: string) => {
-    loginfo('文件信息:', JSON.stringify(file, null, 2))
-
-    let detectedExtension = ''
-
-    // 优先根据 file.type 和 file.mime 确定后缀名
-    const mimeType = file.type || file.mime
-
-    if (mimeType === 'image/jpeg') {
-      detectedExtension = '.jpg'
-    } else if (mimeType === 'image/png') {
-      detectedExtension = '.png'
-    } else if (mimeType === 'image/gif') {
-      detectedExtension = '.gif'
-    } else if (mimeType === 'image/webp') {
-      detectedExtension = '.webp'
-    } else if (mimeType === 'image/bmp') {
-      detectedExtension = '.bmp'
-    } else if (mimeType === 'video/mp4') {
-      detectedExtension = '.mp4'
-    } else if (mimeType === 'video/quicktime') {
-      detectedExtension = '.mov'
-    } else if (mimeType === 'video/x-msvideo') {
-      detectedExtension = '.avi'
-    } else if (mimeType) {
-      // 如果有 type 或 mime，但不是常见的类型，则记录警告
-      loginfo(`未知的文件类型，file.type=${file.type}, file.mime=${file.mime}`)
-      detectedExtension = imgType === 'video' ? '.mp4' : '.jpg'
-    } else {
-      // 如果没有任何类型信息，则使用默认值
-      loginfo(`无法检测到文件类型，file.type=${file.type}, file.mime=${file.mime}`)
-      detectedExtension = imgType === 'video' ? '.mp4' : '.jpg'
-    }
-
-    loginfo('检测到的文件扩展名:', detectedExtension)
-    return detectedExtension
+  const storage = createStorage(ctx, config)
+  const gallery = new Gallery(ctx, config, storage)
+  const shuffleBag = new ShuffleBag(ctx, config)
+  const hashIndex = new HashIndex(ctx, config, storage)
+  if (config.dedupeMode !== 'off') {
+    // 图库刷新后在后台补全文件哈希，存图时无需现场解码整个文件夹
+    ctx.on('image-selector/refresh', () => {
+      hashIndex.index(gallery.roots.flatMap(folder => folder.files.map(file => join(folder.path, file))))
+    })
+  }
+  const reviewQueue = new ReviewQueue(ctx, config, storage)
+  const metadata = new MetadataStore(ctx, config, storage)
+  const sentMessages = new SentMessages(ctx, config)
+  const normalizer = new ImageNormalizer(ctx, config)
+  const rateLimiter = new RateLimiter(config)
+  const quota = new QuotaManager(ctx, config, storage, metadata, metadataFolders)
+  const channelSettings = new ChannelSettings(ctx, config)
+  const statistics = new Statistics(ctx, config)
+  const matcher = new Matcher(gallery, config)
+
+  // 查询当前频道可见的文件夹过滤器
+  async function getVisibility(session: Session) {
+    const setting = await channelSettings.get(session.cid)
+    return (folder: GalleryFolder) => ChannelSettings.isVisible(setting, folder)
   }
 
   // 查找角色名称匹配的文件夹
   async function findCharacterFolder(characterName: string): Promise<string | null> {
     try {
       // 首先检查临时存储路径是否已有对应文件夹
-      const tempFolders = await fs.readdir(config.tempPath, { withFileTypes: true })
+      const tempFolders = await storage.list(config.tempPath)
       for (const folder of tempFolders) {
-        if (!folder.isDirectory()) continue
+        if (!folder.directory) continue
         const folderName = folder.name
         const aliases = folderName.split('-')
         if (aliases.includes(characterName)) {
@@ -133,16 +414,11 @@ export function apply(ctx: Context, config: Config) {
         }
       }
 
-      // 如果临时路径没有，则从图片库路径查找
-      const imageFolders = await fs.readdir(config.imagePath, { withFileTypes: true })
-      for (const folder of imageFolders) {
-        if (!folder.isDirectory()) continue
-        const folderName = folder.name
-        const aliases = folderName.split('-')
-        if (aliases.includes(characterName)) {
-          loginfo('在图片库找到匹配的文件夹:', folderName)
-          return folderName
-        }
+      // 如果临时路径没有，则从图库索引查找
+      const [folder] = gallery.find(characterName)
+      if (folder) {
+        loginfo('在图片库找到匹配的文件夹:', folder.name)
+        return folder.name
       }
 
       return null
@@ -152,57 +428,338 @@ export function apply(ctx: Context, config: Config) {
     }
   }
 
+  interface Uploader {
+    platform: string
+    userId: string
+    username: string
+    // 私聊时为空
+    guildId: string
+    channelId: string
+    // 单个文件的尺寸限制 (MB)
+    sizeLimit: number
+  }
+
+  interface SaveTarget {
+    path: string
+    // 直接存入图库时的目标文件夹，存入临时目录或新建文件夹时为空
+    folder?: GalleryFolder
+    folderName: string
+    matched: boolean
+    pendingReview: boolean
+    normalize: boolean
+    // 重复检测需要比对的已有文件
+    dedupeCandidates: string[]
+    // 本批次中已通过检查的文件，同一批次内的文件也互相查重
+    accepted: { path: string; hash: FileHash }[]
+  }
+
+  type SaveResult =
+    | { type: 'saved'; path: string }
+    | { type: 'invalid' }
+    | { type: 'oversized'; size: number }
+    | { type: 'duplicate'; path: string; exact: boolean }
+
+  interface CheckedFile {
+    type: 'valid'
+    data: Buffer
+    format: MediaFormat
+    hash: FileHash
+  }
+
+  function sessionUploader(session: Session, sizeLimit: number): Uploader {
+    return {
+      platform: session.platform,
+      userId: session.userId,
+      username: session.username || session.userId,
+      guildId: session.guildId || '',
+      channelId: session.channelId || '',
+      sizeLimit,
+    }
+  }
+
+  // 创建指定路径的存图目标，并收集重复检测需要比对的文件
+  async function createTarget(path: string, folder?: GalleryFolder): Promise<SaveTarget> {
+    const target: SaveTarget = {
+      path,
+      folder,
+      folderName: folder?.name || '',
+      matched: !!folder,
+      pendingReview: false,
+      normalize: normalizer.enabled(folder),
+      dedupeCandidates: [],
+      accepted: [],
+    }
+    if (config.dedupeMode === 'off') return target
+
+    if (folder) {
+      target.dedupeCandidates = folder.files.map(file => join(folder.path, file))
+    } else {
+      try {
+        const files = await storage.list(path)
+        target.dedupeCandidates = files
+          .filter(file => !file.directory && isMediaFile(file.name))
+          .map(file => join(path, file.name))
+      } catch (error) {
+        if (error?.code !== 'ENOENT') throw error
+      }
+    }
+    if (config.dedupeMode === 'library') {
+      const libraryFiles = gallery.roots.flatMap(folder => folder.files.map(file => join(folder.path, file)))
+      target.dedupeCandidates = [...new Set([...target.dedupeCandidates, ...libraryFiles])]
+    }
+    return target
+  }
+
+  // 确定存图的目标路径：匹配到的文件夹、审核队列，或临时目录下以关键词命名的子文件夹
+  async function prepareSave(keyword: string, folder: GalleryFolder | undefined, trusted: boolean): Promise<SaveTarget> {
+    let path = config.tempPath
+    if (folder) {
+      path = folder.path
+      loginfo('在图片库匹配到文件夹:', folder.name)
+    } else if (keyword) {
+      // 按关键词存入临时目录下的子文件夹，便于审核时建档
+      path = join(config.tempPath, sanitizeFilename(keyword))
+      loginfo(`关键词 "${keyword}" 未在图片库找到匹配文件夹，将保存到临时目录`)
+    }
+
+    // 低信任用户的存图先进入审核队列，审核通过后再移入目标文件夹
+    const pendingReview = folder && !trusted
+    if (pendingReview) {
+      // 审核队列只有一层分组，子文件夹只取目录名，与"送审"一致
+      path = join(config.tempPath, basename(folder.name))
+      loginfo('上传者权限不足，存图将进入审核队列')
+    }
+
+    // 确保目标路径存在
+    await storage.mkdir(path)
+    if (!pendingReview) return createTarget(path, folder)
+
+    const target = await createTarget(path)
+    target.folderName = folder.name
+    target.matched = true
+    target.pendingReview = true
+    // 按原目标文件夹判断是否跳过图片处理
+    target.normalize = normalizer.enabled(folder)
+    return target
+  }
+
+  // 在本批次已写入（或预览中将要写入）的文件中查找重复，优先返回完全相同的文件
+  function findAccepted(target: SaveTarget, hash: FileHash): Duplicate | undefined {
+    const exact = target.accepted.find(other => other.hash.sha256 === hash.sha256)
+    if (exact) return { path: exact.path, exact: true }
+    const similar = target.accepted.find(other => hashIndex.isSimilar(hash, other.hash))
+    if (similar) return { path: similar.path, exact: false }
+  }
+
+  // 检查单个文件：识别格式、按需处理、检查大小和重复，通过时返回处理后的内容
+  async function checkFile(target: SaveTarget, uploader: Uploader, downloaded: Buffer, mime?: string): Promise<CheckedFile | Exclude<SaveResult, { type: 'saved' }>> {
+    // 根据文件内容识别格式，不信任平台提供的类型
+    const detected = detectMedia(downloaded)
+    if (!detected) {
+      loginfo('无法识别的文件类型:', mime, downloaded.subarray(0, 16).toString('hex'))
+      return { type: 'invalid' }
+    }
+    if (mime && mime !== detected.mime) {
+      loginfo(`文件类型与内容不符: ${mime} → ${detected.mime}`)
+    }
+
+    // 大小限制按处理后实际保存的内容计算
+    const { data, format } = target.normalize
+      ? await normalizer.process(downloaded, detected)
+      : { data: downloaded, format: detected }
+    if (data !== downloaded) {
+      loginfo(`图片处理: ${detected.name} ${downloaded.length}B → ${format.name} ${data.length}B`)
+    }
+
+    if (data.length > uploader.sizeLimit * 1024 * 1024) {
+      loginfo(`文件大小超出限制: ${data.length}B > ${uploader.sizeLimit}MB`)
+      return { type: 'oversized', size: data.length }
+    }
+
+    let hash: FileHash = { sha256: sha256(data) }
+    if (config.dedupeMode !== 'off') {
+      hash = await hashIndex.hashBuffer(data)
+      const duplicate = await hashIndex.findDuplicate(hash, target.dedupeCandidates) || findAccepted(target, hash)
+      if (duplicate) {
+        loginfo('检测到重复文件:', duplicate)
+        return { type: 'duplicate', path: duplicate.path, exact: duplicate.exact }
+      }
+    }
+
+    return { type: 'valid', data, format, hash }
+  }
+
+  // 按文件名模板生成保存路径，序号从 0 开始
+  function templatePath(target: SaveTarget, uploader: Uploader, file: CheckedFile, index: number, timestamp: number) {
+    return join(target.path, renderFilename(config.filenameTemplate, {
+      userId: uploader.userId,
+      username: uploader.username,
+      guildId: uploader.guildId,
+      channelId: uploader.channelId,
+      timestamp,
+      index: index + 1,
+      ext: file.format.extensions[0],
+    }))
+  }
+
+  // 将检查通过的文件写入指定路径并记录上传信息
+  async function writeFile(target: SaveTarget, uploader: Uploader, file: CheckedFile, source: {
+    path: string
+    url: string
+    timestamp: number
+    // 导入时沿用压缩包中的上传记录
+    metadata?: FileMetadata
+  }) {
+    await storage.write(source.path, file.data)
+    await metadata.set(source.path, source.metadata || {
+      uploaderId: `${uploader.platform}:${uploader.userId}`,
+      uploaderName: uploader.username,
+      platform: uploader.platform,
+      guildId: uploader.guildId,
+      channelId: uploader.channelId,
+      time: new Date(source.timestamp).toISOString(),
+      url: source.url,
+      size: file.data.length,
+      mime: file.format.mime,
+      sha256: file.hash.sha256,
+    })
+    if (config.dedupeMode !== 'off') await hashIndex.set(source.path, file.hash)
+    if (target.folder) gallery.addFile(target.folder, basename(source.path))
+  }
+
+  interface SaveSource {
+    // 提示中的文件名称，如"文件 1"或原文件名
+    label: string
+    url: string
+    // 读取文件内容，下载失败时返回空
+    load(): Promise<{ data: Buffer; mime?: string } | undefined>
+  }
+
+  interface SaveBatchResult {
+    saved: string[]
+    skipped: string[]
+    oversized: number
+    // 超出额度时整批拒绝的原因
+    rejected?: string
+  }
+
+  // 保存一批文件：先检查全部文件，确认累计额度足够后再统一写入，避免超出额度时只保存了一部分
+  // folder 为用于额度统计的目标文件夹，进入审核队列时仍按原目标文件夹计算
+  async function saveBatch(target: SaveTarget, uploader: Uploader, folder: GalleryFolder | undefined, sources: SaveSource[]): Promise<SaveBatchResult> {
+    const result: SaveBatchResult = { saved: [], skipped: [], oversized: 0 }
+    const pending: { path: string; url: string; file: CheckedFile; timestamp: number }[] = []
+    const baseTimestamp = Date.now()
+
+    for (const [i, source] of sources.entries()) {
+      const loaded = await source.load()
+      if (!loaded) {
+        result.skipped.push(`${source.label} 下载失败，已跳过`)
+        continue
+      }
+      const checked = await checkFile(target, uploader, loaded.data, loaded.mime)
+      if (checked.type !== 'valid') {
+        if (checked.type === 'oversized') result.oversized++
+        result.skipped.push(describeSkipped(checked, source.label, uploader.sizeLimit))
+        continue
+      }
+      // 使用基础时间戳 + 微秒偏移确保唯一性
+      const timestamp = baseTimestamp + i
+      const path = templatePath(target, uploader, checked, i, timestamp)
+      target.accepted.push({ path, hash: checked.hash })
+      pending.push({ path, url: source.url, file: checked, timestamp })
+    }
+
+    if (pending.length) {
+      const bytes = pending.reduce((total, { file }) => total + file.data.length, 0)
+      const exceeded = QuotaManager.exceeded(await quota.status(uploader, folder), pending.length, bytes)
+      if (exceeded) {
+        result.rejected = `${QuotaManager.format(exceeded)}，无法再保存这 ${pending.length} 个文件（共 ${(bytes / (1024 * 1024)).toFixed(2)}MB）`
+        return result
+      }
+    }
+
+    for (const { path, url, file, timestamp } of pending) {
+      await writeFile(target, uploader, file, { path, url, timestamp })
+      result.saved.push(basename(path))
+      loginfo(`保存文件 ${result.saved.length}/${pending.length}:`, basename(path))
+    }
+    return result
+  }
+
+  // 未保存文件的提示，label 为"文件 1"或文件名
+  function describeSkipped(result: Exclude<SaveResult, { type: 'saved' }>, label: string, sizeLimit: number) {
+    switch (result.type) {
+      case 'invalid':
+        return `${label} 不是支持的图片或视频格式，已跳过`
+      case 'oversized':
+        return `${label} 大小(${(result.size / (1024 * 1024)).toFixed(2)}MB)超出限制(${sizeLimit}MB)，已跳过`
+      case 'duplicate':
+        return result.exact
+          ? `${label} 与已有文件"${displayPath(result.path)}"完全相同，已跳过`
+          : `${label} 与已有文件"${displayPath(result.path)}"高度相似，已跳过`
+    }
+  }
+
   // 存图指令
   ctx.command(`${config.saveCommandName} [关键词] [...图片]`, { captureQuote: false })
     .usage(`存图方式：
 1. 直接存图：${config.saveCommandName} 关键词 [图片]
 2. 交互式：发送 ${config.saveCommandName} 后按提示操作
-3. 引用存图：回复图片消息并发送 ${config.saveCommandName} [关键词]
+3. 引用存图：回复图片消息或合并转发消息并发送 ${config.saveCommandName} [关键词]
+4. 批量存图：发送 ${config.saveCommandName} 关键词 -b 后连续发送多条图片消息，发送“完成”结束
 
 关于“关键词”：
 关键词即文件夹名称或其别名。系统自动匹配文件夹，文件夹名格式为“主名-别名1-别名2”。
 例如文件夹名为“猫图-mt”，则发送“猫图”或“mt”均可匹配到该文件夹并存入图片。若关键词不存在，则根据配置创建新文件夹或存入临时目录。`)
+    .option('batch', '-b 连续收集多条消息中的图片，发送“完成”结束')
     .userFields(['id', 'name', 'authority'])
-    .action(async ({ session }, keyword, ...图片) => {
+    .action(async ({ session, options }, keyword, ...图片) => {
       // 预处理：检查第一参数是否为图片
-      if (keyword) {
-        const elements = h.parse(keyword)
-        if (elements.some(el => ['img', 'mface', 'image', 'video'].includes(el.type))) {
-          图片.unshift(keyword)
-          keyword = undefined
-        }
+      if (keyword && extractMedia(keyword).length) {
+        图片.unshift(keyword)
+        keyword = undefined
       }
 
-      // 优先检查引用消息中的图片
+      // 优先检查引用消息中的图片，引用的合并转发消息中的图片也会一并提取
+      const allImages: h[] = []
       if (session.quote) {
         loginfo('检测到引用消息，尝试从引用消息中提取图片')
-        const quoteElements = h.parse(session.quote.content)
-        const quoteImages = quoteElements.filter(el => ['img', 'mface', 'image', 'video'].includes(el.type))
-
+        const quoteImages = extractMedia(session.quote.elements || session.quote.content || '')
         if (quoteImages.length > 0) {
           loginfo('从引用消息中找到图片:', quoteImages.length, '个')
-          图片 = [session.quote.content]
+          allImages.push(...quoteImages)
         }
       }
 
       // 解析所有图片参数
-      let allImages = []
-      for (const 图片Item of 图片) {
-        const elements = h.parse(图片Item)
-        const images = elements.filter(el => ['img', 'mface', 'image', 'video'].includes(el.type))
-        allImages.push(...images)
+      if (!allImages.length) {
+        for (const 图片Item of 图片) {
+          allImages.push(...extractMedia(图片Item))
+        }
       }
 
-      // 如果没有图片(参数或引用)，尝试交互式获取
-      if (allImages.length === 0) {
+      if (options.batch) {
+        // 连续收集模式：逐条接收消息，直到发送结束词或等待超时
+        await session.send(`请连续发送图片或视频，发送“完成”结束（${config.promptTimeout} 秒内无新消息将自动结束）`)
+        while (true) {
+          const reply = await session.prompt(config.promptTimeout * 1000)
+          if (!reply || BATCH_DONE.includes(reply.trim().toLowerCase())) break
+          const images = extractMedia(reply)
+          if (images.length) {
+            allImages.push(...images)
+            loginfo(`已收集 ${allImages.length} 个文件`)
+          } else {
+            await session.send('未检测到图片或视频，发送“完成”结束收集')
+          }
+        }
+      } else if (allImages.length === 0) {
+        // 如果没有图片(参数或引用)，尝试交互式获取
         await session.send('请发送图片或视频')
         const promptResult = await session.prompt(config.promptTimeout * 1000)
         if (!promptResult) {
           return '未收到图片或视频'
         }
-        const elements = h.parse(promptResult)
-        const images = elements.filter(el => ['img', 'mface', 'image', 'video'].includes(el.type))
-        allImages.push(...images)
+        allImages.push(...extractMedia(promptResult))
       }
 
       if (allImages.length === 0) {
@@ -220,315 +777,1344 @@ export function apply(ctx: Context, config: Config) {
       }
 
       // 检查权限和尺寸限制
-      const userId = session.userId
-      const guildId = session.guildId
-      const userLimits = config.userLimits || []
-      const groupLimits = config.groupLimits || []
-
-      // 将数组转换为字典以便快速查找
-      const userLimitsDict: Record<string, number> = {}
-      if (Array.isArray(userLimits)) {
-        for (const item of userLimits) {
-          if (item && item.userId !== undefined && item.sizeLimit !== undefined) {
-            userLimitsDict[item.userId] = item.sizeLimit
+      // 查找顺序: 用户独立设置 -> 群组独立设置 -> 群组默认设置 -> 全局默认设置(用户default) -> 0
+      const sizeLimitMB = resolveSizeLimit(config, session.userId, session.guildId)
+      if (sizeLimitMB <= 0) {
+        return '当前用户无上传权限或已被禁止上传'
+      }
+
+      loginfo(`用户 ${session.userId} 上传限制: ${sizeLimitMB}MB`)
+
+      try {
+        // 尝试在图库索引中匹配文件夹 (使用发图相同的逻辑)
+        const isVisible = await getVisibility(session)
+        let [targetFolder] = keyword ? gallery.find(keyword).filter(isVisible) : []
+        // 相近的别名只作为提示，新分类常常与已有别名只差一个字，不能因此阻止存入临时目录
+        let suggestion = ''
+        if (keyword && !targetFolder && config.fuzzyMatch) {
+          const fuzzy = matcher.resolve(keyword, isVisible)
+          if (fuzzy.alias) {
+            loginfo(`关键词 "${keyword}" 模糊匹配到别名 "${fuzzy.alias}"`)
+            targetFolder = gallery.find(fuzzy.alias).filter(isVisible)[0]
+          } else if (fuzzy.suggestions.length) {
+            suggestion = `你是不是想找：${fuzzy.suggestions.join('、')}？`
           }
         }
+        if (keyword && !targetFolder && !config.saveFailFallback) {
+          return [`关键词 "${keyword}" 匹配失败，已取消保存`, suggestion].filter(Boolean).join('\n')
+        }
+
+        const trusted = config.reviewTrustAuthority <= 0
+          || (session.user?.authority ?? 0) >= config.reviewTrustAuthority
+        const target = await prepareSave(keyword, targetFolder, trusted)
+        const uploader = sessionUploader(session, sizeLimitMB)
+
+        const sources: SaveSource[] = []
+        for (const [i, img] of allImages.entries()) {
+          const url = img.attrs.src || img.attrs.url
+          if (!url) continue
+          sources.push({
+            label: `文件 ${i + 1}`,
+            url,
+            // 批量保存时单个文件下载失败不影响其他文件
+            load: async () => {
+              const file = await ctx.http.file(url).catch((error) => {
+                loginfo('下载文件失败:', url, error)
+                return undefined
+              })
+              if (file?.data) return { data: Buffer.from(file.data), mime: file.mime }
+              loginfo('无法获取文件数据:', url)
+            },
+          })
+        }
+
+        const { saved: savedFiles, skipped, oversized, rejected } = await saveBatch(target, uploader, targetFolder, sources)
+        if (rejected) return rejected
+
+        await statistics.recordSave(session, target.matched ? target.folderName : keyword, savedFiles)
+
+        let summary: string
+        if (target.pendingReview) {
+          summary = `已提交 ${savedFiles.length} 个文件到"${target.folderName}"文件夹，等待管理员审核`
+        } else if (target.matched) {
+          summary = `已保存 ${savedFiles.length} 个文件到"${target.folderName}"文件夹`
+        } else {
+          summary = `找不到"${keyword}"文件夹，已保存 ${savedFiles.length} 个文件到临时文件夹`
+        }
+        if (skipped.length) {
+          summary += `，跳过 ${skipped.length} 个${oversized ? `（其中 ${oversized} 个超出大小限制）` : ''}`
+        }
+        // 跳过的文件较多时只显示前几条原因
+        const details = skipped.slice(0, SKIP_DETAIL_LINES)
+        if (skipped.length > SKIP_DETAIL_LINES) details.push(`……等 ${skipped.length} 个文件`)
+        return [summary, suggestion, ...details].filter(Boolean).join('\n')
+      } catch (error) {
+        return `保存失败: ${error.message}`
+      }
+
+    })
+
+  // 存图额度查询指令
+  ctx.command(`${config.quotaCommandName} [关键词]`)
+    .usage('查看自己、当前群组和指定文件夹的累计存图额度')
+    .action(async ({ session }, keyword) => {
+      let folder: GalleryFolder
+      if (keyword) {
+        const isVisible = await getVisibility(session)
+        folder = gallery.find(keyword).filter(isVisible)[0]
+        if (!folder) return `找不到"${keyword}"文件夹`
       }
+      const statuses = await quota.status(sessionUploader(session, 0), folder)
+      if (!statuses.length) return '当前没有存图额度限制'
+      return statuses.map(status => QuotaManager.format(status)).join('\n')
+    })
+
+  // 图库列表指令
+  ctx.command(`${config.listCommandName}`)
+    .usage('查看当前所有可用的图库关键词及别名列表。')
+    .action(async ({ session }) => {
+      try {
+        let messageLines = []
+
+        // 收集并格式化文件夹信息，隐藏当前频道不可见的文件夹
+        let hasFolders = false
+        const isVisible = await getVisibility(session)
 
-      const groupLimitsDict: Record<string, number> = {}
-      if (Array.isArray(groupLimits)) {
-        for (const item of groupLimits) {
-          if (item && item.guildId !== undefined && item.sizeLimit !== undefined) {
-            groupLimitsDict[item.guildId] = item.sizeLimit
+        for (const folder of gallery.folders) {
+          if (!isVisible(folder)) continue
+          hasFolders = true
+          const [mainName, ...aliases] = folder.aliases
+          // 子文件夹按层级缩进显示
+          const indent = folder.depth ? '  '.repeat(folder.depth - 1) + '└ ' : ''
+          const title = indent + (config.listShowCount ? `${mainName} (${folder.files.length})` : mainName)
+
+          if (aliases.length > 0) {
+            messageLines.push(`${title} 别名：${aliases.join(', ')}`)
+          } else {
+            messageLines.push(`${title}`)
           }
         }
-      }
 
-      // 查找顺序: 用户独立设置 -> 群组独立设置 -> 群组默认设置 -> 全局默认设置(用户default) -> 0
-      let limit: number | undefined
+        if (!hasFolders) {
+          return '图库为空'
+        }
+
+        const header = `发送指令或别名随机返回图片，也可使用“${config.sendCommandName} 关键词 [+标签] [-标签] 数量”`
+        return [header, ...messageLines].join('\n')
 
-      // 1. 具体用户
-      if (userLimitsDict[userId] !== undefined) {
-        limit = userLimitsDict[userId]
+      } catch (error) {
+        return `获取列表失败: ${error.message}`
       }
+    })
 
-      // 2. 具体群组
-      if (limit === undefined && guildId && groupLimitsDict[guildId] !== undefined) {
-        limit = groupLimitsDict[guildId]
+  // 定时发图等非用户触发的请求可跳过频率限制
+  async function processImageRequest(session: Session, input: string, options: { rateLimit?: boolean } = {}) {
+    if (!input) return false
+
+    try {
+      // 在索引中寻找最长的匹配别名（input以别名开头）
+      const bestMatch = gallery.match(input, await getVisibility(session))
+      if (!bestMatch) {
+        return false
       }
 
-      // 3. 群组默认
-      if (limit === undefined && guildId && groupLimitsDict['default'] !== undefined) {
-        limit = groupLimitsDict['default']
+      // 同一别名可能对应多个文件夹，随机选择一个
+      const { folders, alias, suffix } = bestMatch
+      const folder = folders[Math.floor(Math.random() * folders.length)]
+      const folderName = folder.name
+
+      loginfo('匹配结果:', { folderName, alias, suffix })
+      if (folders.length > 1) {
+        ctx.logger.warn(`检测到别名重名: "${alias}" 匹配到 ${folders.length} 个文件夹: ${folders.map(m => m.name).join(', ')}`)
       }
 
-      // 4. 全局默认 (fallback to user default)
-      if (limit === undefined) {
-        limit = userLimitsDict['default']
+      // 解析数量和标签筛选
+      // "猫图 5"、"猫图5" -> 数量 5
+      // "猫图 +gif -表情包 3" -> 包含 gif 标签，排除 表情包 标签，数量 3
+      const request = parseSendRequest(suffix, config.maxout)
+      let count = request.count
+
+      loginfo(`请求图片数量: ${count} (Max: ${config.maxout})`)
+
+      const folderPath = folder.path
+      const mediaFiles = filterByTags(folder, request.includeTags, request.excludeTags)
+
+      if (mediaFiles.length === 0) {
+        // 匹配到了文件夹但为空，也算作处理了? 或者不算?
+        // 按照旧逻辑，这里 return '该文件夹暂无图片或视频' (给中间件返回 string 意味着回复消息)
+        // 中间件中 return string 是合法的。
+        await session.send(folder.files.length ? '没有符合标签条件的图片或视频' : '该文件夹暂无图片或视频')
+        return true
       }
 
-      // 5. 最终兜底
-      if (limit === undefined || limit === null) {
-        limit = 0
+      // 检查发图频率限制，剩余额度不足时只发送允许的数量
+      const checkRateLimit = options.rateLimit !== false
+      if (checkRateLimit) {
+        const rateLimit = rateLimiter.check(session, folder, count)
+        if (rateLimit.retryAfter) {
+          loginfo(`用户 ${session.userId} 触发发图频率限制，${rateLimit.retryAfter} 秒后可再次发送`)
+          if (config.rateLimitReply) {
+            await session.send(`发图太频繁啦，请 ${rateLimit.retryAfter} 秒后再试`)
+          }
+          return true
+        }
+        count = rateLimit.count
       }
 
-      // 非法值（负数等）视为 0
-      if (typeof limit !== 'number' || limit < 0 || isNaN(limit)) {
-        limit = 0
+      // 选取并发送图片
+      const selectedFiles = await shuffleBag.pick(session.cid, folder, count, mediaFiles)
+      if (checkRateLimit) rateLimiter.record(session, folder, selectedFiles.length)
+      await statistics.recordSend(session, folderName, selectedFiles.length)
+      const items: { path: string; video: boolean; content: h[] }[] = []
+      for (let i = 0; i < selectedFiles.length; i++) {
+        const randomFile = selectedFiles[i]
+        const filePath = join(folderPath, randomFile)
+
+        loginfo(`发送文件 ${i + 1}/${selectedFiles.length}:`, randomFile)
+
+        // 按文件内容判断格式，扩展名与内容不符（如 GIF 存为 .jpg）时也能正确发送
+        const head = await storage.readHead(filePath, HEAD_LENGTH).catch(() => null)
+        const format = head && detectMedia(head) || mediaByExtension(randomFile)
+        const content = [await storage.element(filePath, format)]
+        if (config.outputCaption) {
+          const index = folder.files.indexOf(randomFile) + 1
+          content.unshift(h.text(`${folder.aliases[0] || basename(folderName)} ${index}/${folder.files.length}\n`))
+        }
+        items.push({ path: filePath, video: format.video, content })
       }
 
-      const sizeLimitMB = limit
+      const send = async (content: h[], paths: string[]) => {
+        const messageIds = await session.send(content)
+        // 包含多个文件的消息无法通过引用确定对应的文件，只记录单个文件的消息
+        if (paths.length === 1) await sentMessages.record(session.cid, messageIds, paths[0])
+      }
 
-      if (sizeLimitMB <= 0) {
-        return '当前用户无上传权限或已被禁止上传'
+      let mode = items.length > 1 ? config.outputMode : 'sequential'
+      if (mode === 'forward' && !config.forwardPlatforms.includes(session.platform)) mode = 'sequential'
+
+      if (mode === 'forward') {
+        const messages = items.map(item => h('message', {}, item.content))
+        await send([h('message', { forward: true }, messages)], items.map(item => item.path))
+      } else if (mode === 'combined') {
+        // 视频通常无法与图片放在同一条消息中
+        const images = items.filter(item => !item.video)
+        if (images.length) await send(images.flatMap(item => item.content), images.map(item => item.path))
+        for (const item of items.filter(item => item.video)) {
+          await send(item.content, [item.path])
+        }
+      } else {
+        for (const item of items) {
+          await send(item.content, [item.path])
+        }
       }
 
-      loginfo(`用户 ${userId} 上传限制: ${sizeLimitMB}MB`)
+      return true
 
-      const sizeLimitBytes = sizeLimitMB * 1024 * 1024
+    } catch (error) {
+      loginfo('发图失败:', error)
+      return false
+    }
+  }
 
-      try {
-        let targetPath = config.tempPath
-        let folderName = ''
-        let matched = false
-
-        // 尝试在图片库中匹配文件夹 (使用发图相同的逻辑)
-        if (keyword) {
-          const imageFolders = await fs.readdir(config.imagePath, { withFileTypes: true })
-          const matchedFolders = []
-          for (const folder of imageFolders) {
-            if (!folder.isDirectory()) continue
-            const folderName = folder.name
-            const aliases = folderName.split('-')
-            if (aliases.includes(keyword)) {
-              matchedFolders.push(folderName)
-            }
-          }
+  // 删除文件及其上传记录、哈希缓存和发送记录
+  async function removeFile(path: string) {
+    await storage.remove(path)
+    await metadata.remove(path)
+    await sentMessages.forget(path)
+    await hashIndex.forget(path)
+  }
 
-          if (matchedFolders.length > 0) {
-            folderName = matchedFolders[0]
-            targetPath = join(config.imagePath, folderName)
-            matched = true
-            loginfo('在图片库匹配到文件夹:', folderName)
-          } else {
-            if (!config.saveFailFallback) {
-              return `关键词 "${keyword}" 匹配失败，已取消保存`
-            }
-            loginfo(`关键词 "${keyword}" 未在图片库找到匹配文件夹，将保存到临时目录`)
-          }
+  // 移动文件并同步迁移相关记录
+  async function moveFile(source: string, target: string) {
+    await storage.move(source, target)
+    await metadata.move(source, target)
+    await sentMessages.rename(source, target)
+    await hashIndex.move(source, target)
+  }
+
+  // 图库查重指令
+  ctx.command(`${config.dedupeCommandName} [关键词]`, { authority: config.dedupeAuthority })
+    .option('delete', '-d 删除重复文件，每组仅保留最早的一个')
+    .usage('扫描图库中的重复与相似文件。指定关键词时只扫描对应文件夹。')
+    .action(async ({ options }, keyword) => {
+      const folders = keyword ? gallery.find(keyword) : gallery.roots
+      if (!folders.length) {
+        return keyword ? `找不到"${keyword}"文件夹` : '图库为空'
+      }
+
+      const groups = await hashIndex.groupDuplicates(folders.map((folder) => {
+        return folder.files.map(file => join(folder.path, file))
+      }))
+      if (!groups.length) {
+        return '未发现重复文件'
+      }
+
+      const lines = groups.map(group => group.map(displayPath).join(' = '))
+      if (!options.delete) {
+        return [`发现 ${groups.length} 组重复文件：`, ...lines].join('\n')
+      }
+
+      let removedCount = 0
+      for (const group of groups) {
+        const stats = await Promise.all(group.map(path => storage.stat(path).catch(() => null)))
+        const existing = group.filter((_, index) => stats[index])
+        if (existing.length < 2) continue
+        // 保留修改时间最早的文件
+        existing.sort((a, b) => stats[group.indexOf(a)].mtimeMs - stats[group.indexOf(b)].mtimeMs)
+        for (const path of existing.slice(1)) {
+          await removeFile(path)
+          removedCount++
         }
+      }
+      await gallery.refresh()
+      return [`发现 ${groups.length} 组重复文件，已删除 ${removedCount} 个：`, ...lines].join('\n')
+    })
 
-        // 确保目标路径存在
-        await fs.mkdir(targetPath, { recursive: true })
+  // 检查新别名是否合法且未被其他文件夹占用
+  function checkAliases(aliases: string[], folder?: GalleryFolder) {
+    const seen = new Set<string>()
+    for (const alias of aliases) {
+      if (!alias || /\s/.test(alias)) return `别名"${alias}"不能为空或包含空白字符`
+      if (seen.has(alias)) return `别名"${alias}"重复`
+      seen.add(alias)
+      const owners = gallery.find(alias).filter(owner => owner !== folder)
+      if (owners.length) return `别名"${alias}"已被"${owners.map(owner => owner.name).join(', ')}"使用`
+    }
+  }
 
-        const baseTimestamp = Date.now()
-        let savedCount = 0
+  // 检查新文件夹的目录名，目录名中的每一段都会成为别名
+  function checkFolderName(name: string) {
+    if (sanitizeFilename(name) !== name) return `名称"${name}"中包含非法字符`
+    if (gallery.get(name)) return `文件夹"${name}"已存在`
+    return checkAliases(name.split('-'))
+  }
 
-        for (let i = 0; i < allImages.length; i++) {
-          const img = allImages[i]
-          const url = img.attrs.src || img.attrs.url
-          if (!url) continue
+  // 根据目录名或别名查找唯一的文件夹，找不到或有歧义时返回提示
+  function findUniqueFolder(keyword: string): GalleryFolder | string {
+    const folder = gallery.get(keyword)
+    if (folder) return folder
+    const folders = gallery.find(keyword)
+    if (!folders.length) return `找不到"${keyword}"文件夹`
+    if (folders.length > 1) {
+      return `"${keyword}"对应多个文件夹：${folders.map(folder => folder.name).join(', ')}，请使用完整目录名`
+    }
+    return folders[0]
+  }
 
-          const file = await ctx.http.file(url)
-          if (!file || !file.data) {
-            loginfo('无法获取文件数据:', url)
-            continue
-          }
+  async function saveAliases(folderName: string, added: string[] = [], removed: string[] = []) {
+    for (const alias of removed) gallery.store.remove(folderName, alias)
+    for (const alias of added) gallery.store.add(folderName, alias)
+    await gallery.store.save()
+    await gallery.refresh()
+  }
 
-          const buffer = Buffer.from(file.data)
+  // 合并标签清单中的条目，已有条目以新条目为准
+  async function mergeTagFile(folder: string, entries: Dict<string[]>) {
+    const path = join(folder, config.tagFile)
+    const existing = await storage.read(path).then(parseJson<Dict<string[]>>, () => undefined)
+    await storage.write(path, Buffer.from(JSON.stringify({ ...existing, ...entries }, null, 2)))
+  }
 
-          if (buffer.length > sizeLimitBytes) {
-            const sizeMB = (buffer.length / (1024 * 1024)).toFixed(2)
-            loginfo(`文件大小超出限制: ${sizeMB}MB > ${sizeLimitMB}MB`)
-            await session.send(`文件 ${i + 1} 大小(${sizeMB}MB)超出限制(${sizeLimitMB}MB)，已跳过`)
-            continue
-          }
+  // 标签清单在合并时迁移，上传记录和哈希缓存随文件移动自动迁移
+  const isManifest = (name: string) => [config.tagFile, config.metadataFile, config.hashFile].includes(name)
+
+  // 列出目录（包括子文件夹）中既不是媒体文件也不是清单的文件
+  async function findUnmergeable(path: string, prefix = ''): Promise<string[]> {
+    const result: string[] = []
+    for (const entry of await storage.list(path)) {
+      if (entry.directory) {
+        result.push(...await findUnmergeable(join(path, entry.name), `${prefix}${entry.name}/`))
+      } else if (!isMediaFile(entry.name) && !isManifest(entry.name)) {
+        result.push(prefix + entry.name)
+      }
+    }
+    return result
+  }
 
-          const ext = getFileExtension(file, img.type)
+  // 将目录中的文件和子文件夹移入目标目录，同名文件自动改名并迁移标签，完成后删除源目录
+  async function mergeDirectory(source: string, target: string) {
+    await storage.mkdir(target)
+    const tags = await storage.read(join(source, config.tagFile)).then(parseJson<Dict<string[]>>, () => undefined) || {}
+    const moved: Dict<string[]> = {}
+    for (const entry of await storage.list(source)) {
+      if (entry.directory) {
+        await mergeDirectory(join(source, entry.name), join(target, entry.name))
+      } else if (isMediaFile(entry.name)) {
+        const path = await uniquePath(storage, target, entry.name)
+        await moveFile(join(source, entry.name), path)
+        if (tags[entry.name]) moved[basename(path)] = tags[entry.name]
+      }
+    }
+    if (Object.keys(moved).length) await mergeTagFile(target, moved)
 
-          // 使用基础时间戳 + 微秒偏移确保唯一性
-          const timestamp = baseTimestamp + i
-          const now = new Date(timestamp)
-          const date = now.toISOString().split('T')[0]
-          const time = now.toTimeString().split(' ')[0].replace(/:/g, '-')
+    // 清单中可能残留已不存在的文件的条目，写入哈希缓存后再删除
+    await hashIndex.flush()
+    for (const name of [config.tagFile, config.metadataFile, config.hashFile]) {
+      await storage.remove(join(source, name))
+    }
+    await storage.removeDir(source)
+  }
 
-          let filename = config.filenameTemplate
-            .replace(/\$\{userId\}/g, session.userId || 'unknown')
-            .replace(/\$\{username\}/g, session.username || 'unknown')
-            .replace(/\$\{timestamp\}/g, timestamp.toString())
-            .replace(/\$\{date\}/g, date)
-            .replace(/\$\{time\}/g, time)
-            .replace(/\$\{index\}/g, (i + 1).toString())
-            .replace(/\$\{ext\}/g, ext)
-            .replace(/\$\{guildId\}/g, session.guildId || 'private')
-            .replace(/\$\{channelId\}/g, session.channelId || 'unknown')
+  // 别名管理指令
+  ctx.command(`${config.aliasCommandName} <关键词>`, { authority: config.aliasAuthority })
+    .usage(`查看和管理文件夹别名。别名保存在别名清单中，无需重命名目录，且可以包含 "-"。
+${config.aliasCommandName}.添加 关键词 别名...：为文件夹添加别名
+${config.aliasCommandName}.删除 别名：移除别名（文件夹至少保留一个别名）
+${config.aliasCommandName}.重命名 旧别名 新别名：修改别名
+${config.aliasCommandName}.新建 主名 [别名...]：新建文件夹
+${config.aliasCommandName}.合并 源关键词 目标关键词：将源文件夹的文件和别名并入目标文件夹`)
+    .action(async ({ session }, keyword) => {
+      if (!keyword) {
+        await session.execute(`${config.aliasCommandName} -h`)
+        return
+      }
+      const folders = gallery.get(keyword) ? [gallery.get(keyword)] : gallery.find(keyword)
+      if (!folders.length) return `找不到"${keyword}"文件夹`
+      return folders.map(folder => `${folder.name}：${folder.aliases.join(', ')}`).join('\n')
+    })
 
-          filename = filename.replace(/[\u0000-\u001f\u007f-\u009f\/\\:*?"<>|]/g, '_')
+  ctx.command(`${config.aliasCommandName}.添加 <关键词> <...别名>`, { authority: config.aliasAuthority })
+    .action(async (_, keyword, ...aliases) => {
+      if (!keyword || !aliases.length) return '请提供关键词和要添加的别名'
+      const folder = findUniqueFolder(keyword)
+      if (typeof folder === 'string') return folder
+      const error = checkAliases(aliases, folder)
+      if (error) return error
 
-          const filepath = join(targetPath, filename)
+      await saveAliases(folder.name, aliases)
+      return `已为"${folder.name}"添加别名：${aliases.join(', ')}`
+    })
 
-          await fs.writeFile(filepath, buffer)
-          savedCount++
+  ctx.command(`${config.aliasCommandName}.删除 <别名>`, { authority: config.aliasAuthority })
+    .action(async (_, alias) => {
+      if (!alias) return '请提供要删除的别名'
+      const folder = findUniqueFolder(alias)
+      if (typeof folder === 'string') return folder
+      if (!folder.aliases.includes(alias)) return `"${alias}"不是别名`
+      if (folder.aliases.length <= 1) return `"${alias}"是"${folder.name}"的唯一别名，无法删除`
 
-          loginfo(`保存文件 ${i + 1}/${allImages.length}:`, filename)
-        }
+      await saveAliases(folder.name, [], [alias])
+      return `已从"${folder.name}"删除别名：${alias}`
+    })
 
-        if (matched) {
-          return `已保存 ${savedCount} 个文件到"${folderName}"文件夹`
-        } else {
-          return `找不到"${keyword}"文件夹，已保存 ${savedCount} 个文件到临时文件夹`
-        }
-      } catch (error) {
-        return `保存失败: ${error.message}`
+  ctx.command(`${config.aliasCommandName}.重命名 <旧别名> <新别名>`, { authority: config.aliasAuthority })
+    .action(async (_, oldAlias, newAlias) => {
+      if (!oldAlias || !newAlias) return '请提供旧别名和新别名'
+      const folder = findUniqueFolder(oldAlias)
+      if (typeof folder === 'string') return folder
+      if (!folder.aliases.includes(oldAlias)) return `"${oldAlias}"不是别名`
+      const error = checkAliases([newAlias], folder)
+      if (error) return error
+
+      await saveAliases(folder.name, [newAlias], [oldAlias])
+      return `已将"${folder.name}"的别名"${oldAlias}"改为"${newAlias}"`
+    })
+
+  ctx.command(`${config.aliasCommandName}.新建 <主名> [...别名]`, { authority: config.aliasAuthority })
+    .action(async (_, mainName, ...aliases) => {
+      if (!mainName) return '请提供文件夹主名'
+      const error = checkFolderName(mainName) || checkAliases([...mainName.split('-'), ...aliases])
+      if (error) return error
+
+      await storage.mkdir(join(config.imagePath, mainName))
+      await saveAliases(mainName, aliases)
+      return `已新建文件夹"${mainName}"`
+    })
+
+  ctx.command(`${config.aliasCommandName}.合并 <源关键词> <目标关键词>`, { authority: config.aliasAuthority })
+    .action(async (_, sourceKeyword, targetKeyword) => {
+      if (!sourceKeyword || !targetKeyword) return '请提供源关键词和目标关键词'
+      const source = findUniqueFolder(sourceKeyword)
+      if (typeof source === 'string') return source
+      const target = findUniqueFolder(targetKeyword)
+      if (typeof target === 'string') return target
+      if (source === target) return '源文件夹与目标文件夹相同'
+      if (target.name.startsWith(`${source.name}/`)) return '不能合并到自己的子文件夹中'
+
+      // 源目录必须能完整移走，否则刷新后会出现两个响应相同别名的文件夹
+      const unmergeable = await findUnmergeable(source.path)
+      if (unmergeable.length) {
+        return `源文件夹中有无法合并的文件：${unmergeable.join(', ')}，请先手动处理`
       }
 
+      await mergeDirectory(source.path, target.path)
+      // 子文件夹移动后目录名改变，原清单条目一并移除
+      for (const name of Object.keys(gallery.store.pick([source.name]))) {
+        gallery.store.drop(name)
+      }
+      const aliases = source.aliases.filter(alias => !target.aliases.includes(alias))
+      await saveAliases(target.name, aliases)
+      return `已将"${source.name}"的 ${source.files.length} 个文件合并到"${target.name}"`
     })
 
-  // 图库列表指令
-  ctx.command(`${config.listCommandName}`)
-    .usage('查看当前所有可用的图库关键词及别名列表。')
-    .action(async ({ session }) => {
-      try {
-        const folders = await fs.readdir(config.imagePath, { withFileTypes: true })
-        let messageLines = []
+  // 审核指令
+  ctx.command(`${config.reviewCommandName} [页码:posint]`, { authority: config.reviewAuthority })
+    .usage(`查看临时目录中待审核的文件。
+${config.reviewCommandName}.通过 编号 [关键词]：移入已有文件夹，省略关键词时使用存图时的关键词
+${config.reviewCommandName}.建档 编号 [...别名]：以存图时的关键词为主名新建文件夹，并移入该关键词下的所有文件
+${config.reviewCommandName}.拒绝 编号...：删除文件`)
+    .action(async (_, page = 1) => {
+      const items = await reviewQueue.list()
+      if (!items.length) {
+        return '暂无待审核的文件'
+      }
 
-        // 收集并格式化文件夹信息
-        let hasFolders = false
+      const pageCount = Math.ceil(items.length / config.reviewPageSize)
+      page = Math.min(page, pageCount)
+      const start = (page - 1) * config.reviewPageSize
 
-        for (const folder of folders) {
-          if (!folder.isDirectory()) continue
+      const message: h[] = [h.text(`待审核文件共 ${items.length} 个（第 ${page}/${pageCount} 页）`)]
+      for (const [offset, item] of items.slice(start, start + config.reviewPageSize).entries()) {
+        message.push(h.text(`\n${start + offset + 1}. ${item.group || '未分类'}/${item.file}\n`))
+        message.push(await reviewQueue.thumbnail(item) || h.text('[无法预览]'))
+      }
+      return message
+    })
 
-          hasFolders = true
-          const folderName = folder.name
-          const parts = folderName.split('-')
-          const mainName = parts[0]
-          const aliases = parts.slice(1)
+  // 将待审核文件移入已有文件夹，省略关键词时使用存图时的关键词，失败时返回提示
+  async function approveReview(item: ReviewItem, keyword?: string): Promise<GalleryFolder | string> {
+    keyword = keyword || item.group
+    if (!keyword) return '该文件没有关键词，请指定要存入的关键词'
 
-          if (aliases.length > 0) {
-            messageLines.push(`${mainName} 别名：${aliases.join(', ')}`)
-          } else {
-            messageLines.push(`${mainName}`)
-          }
+    // 低信任用户的存图和从图库移回审核的文件都以目标文件夹的目录名分组，子文件夹的目录名不含上级路径
+    const folder = gallery.get(keyword) || gallery.find(keyword)[0]
+      || gallery.folders.find(folder => basename(folder.name) === keyword)
+    if (!folder) {
+      return `找不到"${keyword}"文件夹，可使用"${config.reviewCommandName}.建档"新建`
+    }
+
+    const target = await uniquePath(storage, folder.path, item.file)
+    await moveFile(item.path, target)
+    gallery.addFile(folder, basename(target))
+    return folder
+  }
+
+  ctx.command(`${config.reviewCommandName}.通过 <编号:posint> [关键词]`, { authority: config.reviewAuthority })
+    .action(async (_, index, keyword) => {
+      const item = (await reviewQueue.list())[index - 1]
+      if (!item) return `编号 ${index} 不存在`
+      const folder = await approveReview(item, keyword)
+      if (typeof folder === 'string') return folder
+      return `已将 ${displayPath(item.path)} 移入"${folder.name}"文件夹`
+    })
+
+  ctx.command(`${config.reviewCommandName}.建档 <编号:posint> [...别名]`, { authority: config.reviewAuthority })
+    .action(async (_, index, ...aliases) => {
+      const items = await reviewQueue.list()
+      const item = items[index - 1]
+      if (!item) return `编号 ${index} 不存在`
+
+      const folderName = item.group || aliases.shift()
+      if (!folderName) return '该文件没有关键词，请提供文件夹主名'
+      if (gallery.get(folderName)) {
+        return `文件夹"${folderName}"已存在，请使用"${config.reviewCommandName}.通过"`
+      }
+      const error = checkFolderName(folderName) || checkAliases([...folderName.split('-'), ...aliases])
+      if (error) return error
+
+      const folderPath = join(config.imagePath, folderName)
+      await storage.mkdir(folderPath)
+      const moving = item.group ? items.filter(other => other.group === item.group) : [item]
+      for (const other of moving) {
+        const target = await uniquePath(storage, folderPath, other.file)
+        await moveFile(other.path, target)
+      }
+      await saveAliases(folderName, aliases)
+
+      return `已新建文件夹"${folderName}"并移入 ${moving.length} 个文件`
+    })
+
+  ctx.command(`${config.reviewCommandName}.拒绝 <...编号:posint>`, { authority: config.reviewAuthority })
+    .action(async (_, ...indices) => {
+      if (!indices.length) return '请指定要删除的编号'
+      const items = await reviewQueue.list()
+      const removed: string[] = []
+      for (const index of new Set(indices)) {
+        const item = items[index - 1]
+        if (!item) continue
+        await removeFile(item.path)
+        removed.push(displayPath(item.path))
+      }
+      if (!removed.length) return '未找到指定编号的文件'
+      return `已删除 ${removed.length} 个文件：${removed.join(', ')}`
+    })
+
+  // 图库和临时目录中所有可能存放上传记录的文件夹
+  async function metadataFolders() {
+    const folders = gallery.folders.map(folder => folder.path)
+    folders.push(config.tempPath)
+    try {
+      for (const entry of await storage.list(config.tempPath)) {
+        if (entry.directory) folders.push(join(config.tempPath, entry.name))
+      }
+    } catch (error) {
+      if (error?.code !== 'ENOENT') throw error
+    }
+    return folders
+  }
+
+  function formatMetadata(path: string, record: FileMetadata) {
+    return [
+      `文件：${displayPath(path)}`,
+      `上传者：${record.uploaderName}（${record.uploaderId}）`,
+      `来源：${record.guildId ? `群组 ${record.guildId}，频道 ${record.channelId}` : '私聊'}`,
+      `时间：${new Date(record.time).toLocaleString()}`,
+      `大小：${(record.size / (1024 * 1024)).toFixed(2)}MB${record.mime ? `，类型：${record.mime}` : ''}`,
+      `原始链接：${record.url}`,
+      `SHA-256：${record.sha256}`,
+    ].join('\n')
+  }
+
+  // 图片来源查询指令
+  ctx.command(`${config.provenanceCommandName} [图片]`, { authority: config.provenanceAuthority, captureQuote: false })
+    .usage(`回复机器人发送的图片，或在指令后附带图片，查询其上传者和来源。
+${config.provenanceCommandName}.用户 用户ID：列出该用户上传的全部文件，加 -d 选项全部删除`)
+    .action(async ({ session }, image) => {
+      // 与存图指令相同，优先读取引用消息中的图片
+      const content = session.quote?.content || image || ''
+      const [element] = h.parse(content).filter(el => ['img', 'mface', 'image', 'video'].includes(el.type))
+      const url = element?.attrs.src || element?.attrs.url
+      if (!url) return '请回复要查询的图片，或在指令后附带图片'
+
+      let buffer: Buffer
+      try {
+        buffer = Buffer.from((await ctx.http.file(url)).data)
+      } catch (error) {
+        loginfo('获取图片失败:', error)
+        return '无法获取该图片'
+      }
+
+      const hash = sha256(buffer)
+      const records = await metadata.collect(await metadataFolders())
+      let found = records.find(([, record]) => record.sha256 === hash)
+      if (!found && config.dedupeThreshold > 0) {
+        // 平台可能重新压缩图片，退化为感知哈希比对
+        const libraryFiles = gallery.roots.flatMap(folder => folder.files.map(file => join(folder.path, file)))
+        const duplicate = await hashIndex.findDuplicate(await hashIndex.hashBuffer(buffer), libraryFiles)
+        if (duplicate) {
+          const record = await metadata.get(duplicate.path)
+          if (!record) return `该图片对应文件 ${displayPath(duplicate.path)}，但没有上传记录（可能是手动放入图库的文件）`
+          found = [duplicate.path, record]
         }
+      }
+      if (!found) return '未找到该图片的上传记录'
+      return formatMetadata(...found)
+    })
 
-        if (!hasFolders) {
-          return '图库为空'
+  ctx.command(`${config.provenanceCommandName}.用户 <用户ID>`, { authority: config.provenanceAdminAuthority })
+    .option('delete', '-d 删除该用户上传的全部文件')
+    .usage('用户ID可以是 "平台:ID"、当前平台的 ID，也可以直接 @ 用户。')
+    .action(async ({ session, options }, target) => {
+      if (!target) return '请提供用户ID'
+      const [at] = h.select(target, 'at')
+      const userId = at?.attrs.id || target.trim()
+      const uploaderId = userId.includes(':') ? userId : `${session.platform}:${userId}`
+
+      const records = (await metadata.collect(await metadataFolders()))
+        .filter(([, record]) => record.uploaderId === uploaderId)
+      if (!records.length) return `没有找到用户 ${uploaderId} 的上传记录`
+
+      const lines = records.map(([path, record]) => `${displayPath(path)}（${new Date(record.time).toLocaleString()}）`)
+      if (!options.delete) {
+        return [`用户 ${uploaderId} 共上传 ${records.length} 个文件：`, ...lines].join('\n')
+      }
+
+      for (const [path] of records) {
+        await removeFile(path)
+      }
+      await gallery.refresh()
+      return [`已删除用户 ${uploaderId} 上传的 ${records.length} 个文件：`, ...lines].join('\n')
+    })
+
+  // 查找引用消息对应的文件，文件已被删除或移走时返回空
+  async function findQuotedFile(session: Session) {
+    if (!session.quote?.id) return
+    const path = await sentMessages.get(session.cid, session.quote.id)
+    if (path && await storage.exists(path)) return path
+  }
+
+  const quoteHint = '请回复机器人发送的图片，发送时间过早或已被删除的图片无法识别'
+
+  // 图库管理指令
+  ctx.command(`${config.manageCommandName}`, { captureQuote: false })
+    .usage(`回复机器人发送的图片后使用：
+${config.manageCommandName}：查看该图片对应的文件
+${config.manageCommandName}.删除：删除该文件（上传者可删除自己上传的文件）
+${config.manageCommandName}.移动 关键词：移入其他文件夹
+${config.manageCommandName}.送审：移回临时目录等待审核`)
+    .action(async ({ session }) => {
+      const path = await findQuotedFile(session)
+      if (!path) return quoteHint
+      const record = await metadata.get(path)
+      return record ? formatMetadata(path, record) : `文件：${displayPath(path)}`
+    })
+
+  ctx.command(`${config.manageCommandName}.删除`, { captureQuote: false })
+    .userFields(['authority'])
+    .action(async ({ session }) => {
+      const path = await findQuotedFile(session)
+      if (!path) return quoteHint
+      if ((session.user?.authority ?? 0) < config.manageAuthority) {
+        const record = await metadata.get(path)
+        if (record?.uploaderId !== `${session.platform}:${session.userId}`) {
+          return '权限不足，只能删除自己上传的文件'
         }
+      }
+      await removeFile(path)
+      await gallery.refresh()
+      return `已删除 ${displayPath(path)}`
+    })
 
-        const header = `发送指令或别名随机返回图片，也可使用“${config.sendCommandName} 关键词 数量”`
-        return [header, ...messageLines].join('\n')
+  ctx.command(`${config.manageCommandName}.移动 <关键词>`, { authority: config.manageAuthority, captureQuote: false })
+    .action(async ({ session }, keyword) => {
+      const path = await findQuotedFile(session)
+      if (!path) return quoteHint
+      if (!keyword) return '请提供目标关键词'
+      const folder = findUniqueFolder(keyword)
+      if (typeof folder === 'string') return folder
+      if (dirname(path) === folder.path) return `该文件已在"${folder.name}"文件夹中`
+
+      await moveFile(path, await uniquePath(storage, folder.path, basename(path)))
+      await gallery.refresh()
+      return `已将 ${displayPath(path)} 移入"${folder.name}"文件夹`
+    })
+
+  ctx.command(`${config.manageCommandName}.送审`, { authority: config.manageAuthority, captureQuote: false })
+    .action(async ({ session }) => {
+      const path = await findQuotedFile(session)
+      if (!path) return quoteHint
+      const folder = gallery.folders.find(folder => folder.path === dirname(path))
+      if (!folder) return '该文件已在临时目录中'
+
+      // 以所在文件夹的目录名分组，审核通过时可直接移回
+      const group = join(config.tempPath, basename(folder.name))
+      await moveFile(path, await uniquePath(storage, group, basename(path)))
+      await gallery.refresh()
+      return `已将 ${displayPath(path)} 移回审核队列`
+    })
 
+  // 定时发图：通过机器人构造会话，复用发图逻辑
+  const scheduler = new Scheduler(ctx, async (schedule) => {
+    const bot = ctx.bots.find(bot => bot.platform === schedule.platform && bot.selfId === schedule.selfId)
+      || ctx.bots.find(bot => bot.platform === schedule.platform)
+    if (!bot) {
+      ctx.logger.warn(`定时发图 #${schedule.id} 找不到 ${schedule.platform} 平台的机器人`)
+      return
+    }
+    const session = bot.session({
+      type: 'message',
+      channel: { id: schedule.channelId, type: Universal.Channel.Type.TEXT },
+      guild: schedule.guildId ? { id: schedule.guildId } : undefined,
+      user: { id: bot.selfId },
+    })
+    const processed = await processImageRequest(session, `${schedule.keyword} ${schedule.count}`, { rateLimit: false })
+    if (!processed) {
+      ctx.logger.warn(`定时发图 #${schedule.id} 找不到"${schedule.keyword}"文件夹或该频道不可见`)
+    }
+  })
+
+  ctx.command(`${config.scheduleCommandName}`, { authority: config.scheduleAuthority })
+    .usage(`按 cron 表达式（分 时 日 月 周，服务器本地时间）定时向频道发图。
+${config.scheduleCommandName}.添加 0 9 * * * 猫图 1：每天 9:00 在当前频道发送 1 张猫图，可用 -c 指定其他频道
+${config.scheduleCommandName}.列表：查看所有定时任务
+${config.scheduleCommandName}.删除 编号：删除定时任务`)
+    .action(({ session }) => session.execute(`help ${config.scheduleCommandName}`))
+
+  ctx.command(`${config.scheduleCommandName}.添加 <...参数>`, { authority: config.scheduleAuthority })
+    .option('channel', '-c <频道ID:string> 目标频道，可以是 "平台:频道ID"，默认为当前频道')
+    .action(async ({ session, options }, ...args) => {
+      if (args.length < 6) {
+        return `请提供 cron 表达式和关键词，例如：${config.scheduleCommandName}.添加 0 9 * * * 猫图 1`
+      }
+      const cron = args.slice(0, 5).join(' ')
+      try {
+        new CronExpression(cron)
       } catch (error) {
-        return `获取列表失败: ${error.message}`
+        return error.message
       }
+
+      // 最后一个参数为数字时作为数量，其余部分（可包含标签）作为关键词
+      const rest = args.slice(5)
+      let count = 1
+      if (rest.length > 1 && /^\d+$/.test(rest[rest.length - 1])) {
+        count = Math.min(Math.max(+rest.pop(), 1), config.maxout)
+      }
+      const keyword = rest.join(' ')
+      if (!gallery.match(keyword)) return `找不到"${keyword}"文件夹`
+
+      let platform = session.platform, channelId = session.channelId, guildId = session.guildId || ''
+      if (options.channel) {
+        const index = options.channel.indexOf(':')
+        if (index > 0 && !options.channel.startsWith('private:')) {
+          platform = options.channel.slice(0, index)
+          channelId = options.channel.slice(index + 1)
+        } else {
+          channelId = options.channel
+        }
+        // 其他频道的群组未知，群聊平台中频道 ID 通常即为群组 ID
+        guildId = channelId.startsWith('private:') ? '' : channelId
+      }
+
+      const schedule = await scheduler.add({
+        platform,
+        selfId: platform === session.platform ? session.selfId : '',
+        channelId,
+        guildId,
+        cron,
+        keyword,
+        count,
+        creator: `${session.platform}:${session.userId}`,
+      })
+      const next = scheduler.next(schedule)
+      return `已添加定时发图 #${schedule.id}，${next ? `下次发送时间：${next.toLocaleString()}` : '该表达式不会触发'}`
     })
 
-  async function processImageRequest(session: Session, input: string) {
-    if (!input) return false
+  ctx.command(`${config.scheduleCommandName}.列表`, { authority: config.scheduleAuthority })
+    .action(async () => {
+      const schedules = await scheduler.list()
+      if (!schedules.length) return '暂无定时发图任务'
+      const lines = schedules.map((schedule) => {
+        const next = scheduler.next(schedule)
+        return `#${schedule.id} ${schedule.cron} → ${schedule.platform}:${schedule.channelId} ${schedule.keyword} ×${schedule.count}`
+          + `，下次：${next ? next.toLocaleString() : '无'}`
+      })
+      return ['定时发图任务：', ...lines].join('\n')
+    })
 
-    try {
-      const folders = await fs.readdir(config.imagePath, { withFileTypes: true })
+  ctx.command(`${config.scheduleCommandName}.删除 <编号:posint>`, { authority: config.scheduleAuthority })
+    .action(async (_, id) => {
+      if (!id) return '请指定要删除的编号'
+      return await scheduler.remove(id) ? `已删除定时发图 #${id}` : `定时发图 #${id} 不存在`
+    })
 
-      // 寻找所有可能的匹配（input以别名开头）
-      const possibleMatches = []
+  interface ExportFile {
+    // 压缩包中的路径
+    path: string
+    // 存储中的路径
+    source: string
+  }
 
-      for (const folder of folders) {
-        if (!folder.isDirectory()) continue
+  // 递归收集文件夹中的全部文件（包括标签清单和上传记录），路径相对于图库路径
+  async function collectFiles(path: string, files: ExportFile[]) {
+    for (const entry of await storage.list(path)) {
+      const child = join(path, entry.name)
+      if (entry.directory) {
+        await collectFiles(child, files)
+      } else if (entry.name !== config.hashFile) {
+        files.push({ path: relative(config.imagePath, child).split(sep).join('/'), source: child })
+      }
+    }
+    return files
+  }
 
-        const folderName = folder.name
-        const aliases = folderName.split('-')
+  // 逐个读取文件写入压缩包，别名清单中对应的条目一并导出，返回导出的图片和视频数量
+  async function exportArchive(folders: GalleryFolder[], files: ExportFile[], format: ArchiveFormat, write: (chunk: Uint8Array) => Promise<void>) {
+    const writer = new ArchiveWriter(format, write)
+    for (const file of files) {
+      await writer.add(file.path, await storage.read(file.source))
+    }
+    const aliases = gallery.store.pick(folders.map(folder => folder.name))
+    if (Object.keys(aliases).length) {
+      await writer.add(config.aliasFile, Buffer.from(JSON.stringify(aliases, null, 2)))
+    }
+    await writer.end()
+    return files.filter(file => isMediaFile(file.path)).length
+  }
 
-        for (const alias of aliases) {
-          if (input.startsWith(alias)) {
-            const suffix = input.slice(alias.length).trim()
-            possibleMatches.push({
-              folderName,
-              alias,
-              suffix,
-              aliasLength: alias.length
-            })
-          }
+  interface ImportPlan {
+    files: {
+      target: SaveTarget
+      // 压缩包中的原路径
+      source: string
+      // 检查通过的文件内容暂存在本地临时目录，确认导入前不占用内存
+      file: Omit<CheckedFile, 'data'> & { staged: string }
+      metadata?: FileMetadata
+      tags?: string[]
+    }[]
+    // 需要新建的文件夹路径
+    folders: string[]
+    // 将要写入别名清单的条目，以目录名为键
+    aliases: Dict<AliasEntry>
+    skipped: string[]
+    entryCount: number
+    // 暂存目录，导入结束或取消后删除
+    staging: string
+  }
+
+  function parseJson<T>(data: Buffer): T | undefined {
+    try {
+      return JSON.parse(data.toString('utf8'))
+    } catch {}
+  }
+
+  // 逐个读取压缩包中的文件并检查但不写入图库：指定文件夹时全部存入该文件夹，否则按压缩包中的目录结构还原
+  // 不支持的压缩包格式返回空
+  async function planImport(source: AsyncIterable<Uint8Array>, uploader: Uploader, folder?: GalleryFolder) {
+    const staging = await fs.mkdtemp(join(tmpdir(), 'image-selector-import-'))
+    const plan: ImportPlan = { files: [], folders: [], aliases: {}, skipped: [], entryCount: 0, staging }
+
+    // 上传记录和标签清单可能位于图片之后，读完后再对应到各文件，导入后迁移到新文件名
+    const metadataFiles = new Map<string, Dict<FileMetadata>>()
+    const tagFiles = new Map<string, Dict<string[]>>()
+    let aliasFile: Dict<AliasEntry> = {}
+    const targets = new Map<string, SaveTarget>()
+
+    const planEntry = async (entry: ArchiveEntry) => {
+      plan.entryCount++
+      const dir = posix.dirname(entry.path)
+      const name = posix.basename(entry.path)
+      if (entry.path === config.aliasFile) {
+        aliasFile = parseJson(entry.data) || {}
+        return
+      } else if (name === config.metadataFile) {
+        metadataFiles.set(dir, parseJson(entry.data) || {})
+        return
+      } else if (name === config.tagFile) {
+        tagFiles.set(dir, parseJson(entry.data) || {})
+        return
+      }
+
+      let target: SaveTarget
+      if (folder) {
+        if (!targets.has(folder.path)) targets.set(folder.path, await createTarget(folder.path, folder))
+        target = targets.get(folder.path)
+      } else if (dir === '.') {
+        plan.skipped.push(`${entry.path} 位于压缩包根目录，请指定要导入的文件夹`)
+        return
+      } else {
+        const segments = dir.split('/')
+        if (segments.some(segment => sanitizeFilename(segment) !== segment)) {
+          plan.skipped.push(`${entry.path} 的目录名中包含非法字符，已跳过`)
+          return
+        }
+        const path = join(config.imagePath, ...segments)
+        if (!targets.has(path)) {
+          const existing = gallery.get(dir)
+          if (!existing) plan.folders.push(path)
+          targets.set(path, await createTarget(path, existing))
         }
+        target = targets.get(path)
       }
 
-      if (possibleMatches.length === 0) {
-        return false
+      const file = await checkFile(target, uploader, entry.data)
+      if (file.type !== 'valid') {
+        plan.skipped.push(describeSkipped(file, entry.path, uploader.sizeLimit))
+        return
       }
+      // 同一压缩包内的文件互相查重
+      target.accepted.push({ path: join(target.path, name), hash: file.hash })
+      const { data, ...checked } = file
+      const staged = join(staging, String(plan.files.length))
+      await fs.writeFile(staged, data)
+      plan.files.push({ target, source: entry.path, file: { ...checked, staged } })
+    }
 
-      // 按别名长度降序排序，取最长匹配
-      possibleMatches.sort((a, b) => b.aliasLength - a.aliasLength)
-      const bestMatch = possibleMatches[0]
+    try {
+      if (!await readArchive(source, planEntry)) {
+        await fs.rm(staging, { recursive: true, force: true })
+        return
+      }
+    } catch (error) {
+      await fs.rm(staging, { recursive: true, force: true })
+      throw error
+    }
 
-      // 收集所有具有相同最长别名的匹配（可能有多个文件夹使用相同别名）
-      const bestMatches = possibleMatches.filter(m => m.aliasLength === bestMatch.aliasLength && m.alias === bestMatch.alias)
+    for (const item of plan.files) {
+      const dir = posix.dirname(item.source)
+      const name = posix.basename(item.source)
+      item.metadata = metadataFiles.get(dir)?.[name]
+      item.tags = tagFiles.get(dir)?.[name]
+    }
 
-      // 随机选择一个文件夹
-      const selectedMatch = bestMatches[Math.floor(Math.random() * bestMatches.length)]
+    // 还原目录结构时合并别名清单，已被其他文件夹占用的别名不导入
+    if (!folder) {
+      for (const [name, entry] of Object.entries(aliasFile)) {
+        const existing = gallery.get(name)
+        const added = (entry.added || []).filter((alias) => {
+          if (existing?.aliases.includes(alias)) return false
+          const error = checkAliases([alias], existing)
+          if (error) plan.skipped.push(`${name} 的${error}，未导入`)
+          return !error
+        })
+        const removed = (entry.removed || []).filter(alias => !existing || existing.aliases.includes(alias))
+        if (added.length || removed.length) plan.aliases[name] = { added, removed }
+      }
+    }
+
+    return plan
+  }
+
+  function formatImportPlan(plan: ImportPlan) {
+    const folderCount = new Set(plan.files.map(item => item.target.path)).size
+    const lines = [`压缩包共 ${plan.entryCount} 个文件，将导入 ${plan.files.length} 个文件到 ${folderCount} 个文件夹`]
+    if (plan.folders.length) {
+      lines.push(`将新建文件夹：${plan.folders.map(path => relative(config.imagePath, path).split(sep).join('/')).join(', ')}`)
+    }
+    for (const [name, entry] of Object.entries(plan.aliases)) {
+      const changes = [...entry.added.map(alias => `+${alias}`), ...entry.removed.map(alias => `-${alias}`)]
+      lines.push(`别名 ${name}：${changes.join(' ')}`)
+    }
+    if (plan.skipped.length) {
+      lines.push(`跳过 ${plan.skipped.length} 项：`)
+      lines.push(...plan.skipped.slice(0, IMPORT_SKIP_LINES))
+      if (plan.skipped.length > IMPORT_SKIP_LINES) lines.push(`……等 ${plan.skipped.length} 项`)
+    }
+    return lines.join('\n')
+  }
 
-      const { folderName, suffix } = selectedMatch
+  // 按导入计划写入文件、上传记录、标签和别名，返回导入的文件数量
+  // 导入仅限管理员，用于迁移和恢复图库，不检查存图额度
+  async function commitImport(plan: ImportPlan, uploader: Uploader) {
+    for (const path of plan.folders) {
+      await storage.mkdir(path)
+    }
 
-      loginfo('匹配结果:', { folderName, alias: selectedMatch.alias, suffix })
-      if (bestMatches.length > 1) {
-        ctx.logger.warn(`检测到别名重名: "${selectedMatch.alias}" 匹配到 ${bestMatches.length} 个文件夹: ${bestMatches.map(m => m.folderName).join(', ')}`)
+    const tags = new Map<string, Dict<string[]>>()
+    const timestamp = Date.now()
+    for (const [index, item] of plan.files.entries()) {
+      const file: CheckedFile = { ...item.file, data: await fs.readFile(item.file.staged) }
+      // 处理后的文件内容可能变化，沿用上传记录时更新大小、类型和哈希
+      const record = item.metadata && {
+        ...item.metadata,
+        size: file.data.length,
+        mime: item.file.format.mime,
+        sha256: item.file.hash.sha256,
+      }
+      // 保留原文件名，扩展名按识别出的格式修正
+      const stem = posix.basename(item.source, posix.extname(item.source))
+      const path = await uniquePath(storage, item.target.path, sanitizeFilename(stem + item.file.format.extensions[0]))
+      await writeFile(item.target, uploader, file, {
+        path,
+        url: '',
+        timestamp: timestamp + index,
+        metadata: record,
+      })
+      if (item.tags?.length) {
+        if (!tags.has(item.target.path)) tags.set(item.target.path, {})
+        tags.get(item.target.path)[basename(path)] = item.tags
       }
+    }
 
-      // 解析数量
-      let count = 1
-      if (suffix) {
-        // 如果 input = "alias" + "suffix"
-        // 比如 "猫图 5" -> suffix="5".
-        // "猫图5" -> suffix="5".
-        // "猫图 abc" -> suffix="abc".
-        if (/^\d+$/.test(suffix)) {
-          count = Math.min(parseInt(suffix, 10), config.maxout)
-        } else {
-          // suffix 不是纯数字，视为无效数量，保持 count=1
-          count = 1
+    for (const [folder, entries] of tags) {
+      await mergeTagFile(folder, entries)
+    }
+
+    if (Object.keys(plan.aliases).length) {
+      for (const [name, entry] of Object.entries(plan.aliases)) {
+        for (const alias of entry.removed) gallery.store.remove(name, alias)
+        for (const alias of entry.added) gallery.store.add(name, alias)
+      }
+      await gallery.store.save()
+    }
+
+    await gallery.refresh()
+    return plan.files.length
+  }
+
+  // 图库导出指令
+  ctx.command(`${config.exportCommandName} [关键词]`, { authority: config.archiveAuthority })
+    .option('format', '-f <格式:string> 压缩包格式，zip 或 tar')
+    .option('output', '-o <路径:string> 写入服务器上的路径而不是发送文件')
+    .usage('将指定文件夹或整个图库（包括子文件夹、标签清单、上传记录和别名清单）打包为压缩包。')
+    .action(async ({ session, options }, keyword) => {
+      const format = (options.format || config.archiveFormat) as ArchiveFormat
+      if (!ARCHIVE_MIME[format]) return '压缩包格式只能是 zip 或 tar'
+
+      let folders = gallery.roots
+      if (keyword) {
+        const folder = findUniqueFolder(keyword)
+        if (typeof folder === 'string') return folder
+        folders = [folder]
+      }
+      if (!folders.length) return '图库为空'
+
+      const files: ExportFile[] = []
+      for (const folder of folders) {
+        await collectFiles(folder.path, files)
+      }
+      const date = new Date().toISOString().split('T')[0]
+      const filename = `${keyword ? basename(folders[0].name) : 'gallery'}-${date}.${format}`
+
+      if (options.output) {
+        // 输出路径为已有目录时在其中按默认文件名保存
+        let path = options.output
+        if (await fs.stat(path).then(stats => stats.isDirectory(), () => false)) path = join(path, filename)
+        await fs.mkdir(dirname(path), { recursive: true })
+        // 边打包边写入文件，不在内存中保留整个压缩包
+        const handle = await fs.open(path, 'w')
+        let count: number
+        try {
+          count = await exportArchive(folders, files, format, async (chunk) => {
+            await handle.write(chunk)
+          })
+        } catch (error) {
+          await handle.close()
+          await fs.rm(path, { force: true })
+          throw error
         }
+        await handle.close()
+        return `已导出 ${count} 个文件到 ${path}`
       }
 
-      // 只有在确定是纯数字时才应用 limit
-      if (count > config.maxout) {
-        count = config.maxout
+      // 通过聊天发送时需要在内存中生成完整的压缩包，超出上限时改用 -o 写入服务器
+      if (config.archiveSendLimit > 0) {
+        let size = 0
+        for (const file of files) {
+          size += (await storage.stat(file.source)).size
+        }
+        if (size > config.archiveSendLimit * 1024 * 1024) {
+          return `导出的文件共 ${(size / 1024 / 1024).toFixed(2)}MB，超出发送上限 ${config.archiveSendLimit}MB，请使用 -o 写入服务器上的路径`
+        }
       }
+      const chunks: Uint8Array[] = []
+      await exportArchive(folders, files, format, async (chunk) => {
+        chunks.push(chunk)
+      })
+      await session.send(h.file(Buffer.concat(chunks), ARCHIVE_MIME[format], { title: filename }))
+    })
 
-      loginfo(`请求图片数量: ${count} (Max: ${config.maxout})`)
+  // 图库导入指令
+  ctx.command(`${config.importCommandName} [关键词] [压缩包]`, { authority: config.archiveAuthority, captureQuote: false })
+    .option('path', '-p <路径:string> 读取服务器上的压缩包')
+    .option('dryRun', '-n 仅预览，不导入')
+    .option('yes', '-y 跳过确认直接导入')
+    .usage(`导入 zip、tar 或 tar.gz 压缩包，可以附带文件、回复文件消息，或用 -p 指定服务器上的路径。
+指定关键词时，压缩包中的所有图片存入该文件夹；省略关键词时按压缩包中的目录结构还原（与"${config.exportCommandName}"导出的格式相同），并合并别名清单。
+导入前会按存图相同的规则检查文件格式和重复，并显示预览，回复"确认"后才会写入。`)
+    .action(async ({ session, options }, keyword, archive) => {
+      // 省略关键词时第一个参数即为压缩包
+      if (keyword && h.select(keyword, 'file').length) {
+        archive = keyword
+        keyword = undefined
+      }
 
-      const folderPath = join(config.imagePath, folderName)
-      const files = await fs.readdir(folderPath)
-      const mediaFiles = files.filter(file =>
-        /\.(jpe?g|png|gif|webp|mp4|mov|avi|bmp|tiff?)$/i.test(file)
-      )
+      let folder: GalleryFolder
+      if (keyword) {
+        const found = findUniqueFolder(keyword)
+        if (typeof found === 'string') return found
+        folder = found
+      }
 
-      if (mediaFiles.length === 0) {
-        // 匹配到了文件夹但为空，也算作处理了? 或者不算?
-        // 按照旧逻辑，这里 return '该文件夹暂无图片或视频' (给中间件返回 string 意味着回复消息)
-        // 中间件中 return string 是合法的。
-        await session.send('该文件夹暂无图片或视频')
-        return true
+      // 服务器上的压缩包边读取边解压，聊天中的文件下载后再解压
+      let source: AsyncIterable<Uint8Array>
+      try {
+        if (options.path) {
+          await fs.access(options.path)
+          source = createReadStream(options.path)
+        } else {
+          const [element] = h.select(session.quote?.content || archive || '', 'file')
+          const url = element?.attrs.src || element?.attrs.url
+          if (!url) return '请附带或回复压缩包文件，或使用 -p 指定服务器上的路径'
+          source = Readable.from([Buffer.from((await ctx.http.file(url)).data)])
+        }
+      } catch (error) {
+        loginfo('读取压缩包失败:', error)
+        return '无法读取压缩包'
       }
 
-      // 循环发送图片
-      for (let i = 0; i < count; i++) {
-        const randomFile = mediaFiles[Math.floor(Math.random() * mediaFiles.length)]
-        const filePath = join(folderPath, randomFile)
+      // 导入由管理员执行，不限制单个文件大小
+      const uploader = sessionUploader(session, Infinity)
+      let plan: ImportPlan
+      try {
+        plan = await planImport(source, uploader, folder)
+      } catch (error) {
+        loginfo('解压失败:', error)
+        return '压缩包已损坏，无法解压'
+      }
+      if (!plan) return '不支持的压缩包格式，仅支持 zip、tar 和 tar.gz'
 
-        loginfo(`发送文件 ${i + 1}/${count}:`, randomFile)
+      try {
+        const summary = formatImportPlan(plan)
+        if (options.dryRun || !plan.files.length && !Object.keys(plan.aliases).length) return summary
 
-        const isVideo = /\.(mp4|mov|avi)$/i.test(randomFile)
-        const element = isVideo
-          ? h.video(filePath)
-          : h.image(filePath)
+        if (!options.yes) {
+          await session.send(`${summary}\n回复"确认"开始导入`)
+          const reply = await session.prompt(config.promptTimeout * 1000)
+          if (reply?.trim() !== '确认') return '已取消导入'
+        }
 
-        await session.send(element)
+        const count = await commitImport(plan, uploader)
+        return `已导入 ${count} 个文件`
+      } finally {
+        await fs.rm(plan.staging, { recursive: true, force: true })
       }
+    })
 
-      return true
+  // 频道设置指令
+  ctx.command(`${config.channelCommandName}`)
+    .usage(`查看和修改当前频道的发图设置。
+${config.channelCommandName}.关键词 开启|关闭：是否允许直接发送别名触发发图（关闭后仍可使用"${config.sendCommandName}"指令）
+${config.channelCommandName}.允许 关键词...：只允许发送列出的文件夹
+${config.channelCommandName}.禁止 关键词...：禁止发送列出的文件夹，并在"${config.listCommandName}"中隐藏
+${config.channelCommandName}.移除 关键词...：从允许和禁止列表中移除
+${config.channelCommandName}.重置：恢复默认设置`)
+    .action(async ({ session }) => {
+      const setting = await channelSettings.get(session.cid)
+      return [
+        `关键词触发：${setting.passive ? '开启' : '关闭'}`,
+        `允许列表：${setting.allow.length ? setting.allow.join(', ') : '全部'}`,
+        `禁止列表：${setting.deny.length ? setting.deny.join(', ') : '无'}`,
+      ].join('\n')
+    })
 
-    } catch (error) {
-      loginfo('发图失败:', error)
-      return false
+  // 频道设置仅限高权限用户或群主、群管理员修改
+  const checkChannelAdmin = ({ session }: { session?: Session<'authority'> }) => {
+    if (session.user?.authority >= config.channelAuthority) return
+    // 部分适配器以字符串形式提供角色
+    const roles = (session.author?.roles || []).map(role => typeof role === 'string' ? role : role.id)
+    if (roles.includes('owner') || roles.includes('admin')) return
+    return '权限不足，只有频道管理员可以修改设置'
+  }
+
+  ctx.command(`${config.channelCommandName}.关键词 <状态>`)
+    .userFields(['authority'])
+    .check(checkChannelAdmin)
+    .action(async ({ session }, state) => {
+      if (state !== '开启' && state !== '关闭') return '请输入"开启"或"关闭"'
+      await channelSettings.update(session.cid, { passive: state === '开启' })
+      return `已${state}当前频道的关键词触发`
+    })
+
+  ctx.command(`${config.channelCommandName}.允许 <...关键词>`)
+    .userFields(['authority'])
+    .check(checkChannelAdmin)
+    .action(async ({ session }, ...keywords) => {
+      if (!keywords.length) return '请提供关键词'
+      const setting = await channelSettings.get(session.cid)
+      await channelSettings.update(session.cid, {
+        allow: [...new Set([...setting.allow, ...keywords])],
+        deny: setting.deny.filter(name => !keywords.includes(name)),
+      })
+      return `当前频道只允许发送：${(await channelSettings.get(session.cid)).allow.join(', ')}`
+    })
+
+  ctx.command(`${config.channelCommandName}.禁止 <...关键词>`)
+    .userFields(['authority'])
+    .check(checkChannelAdmin)
+    .action(async ({ session }, ...keywords) => {
+      if (!keywords.length) return '请提供关键词'
+      const setting = await channelSettings.get(session.cid)
+      await channelSettings.update(session.cid, {
+        allow: setting.allow.filter(name => !keywords.includes(name)),
+        deny: [...new Set([...setting.deny, ...keywords])],
+      })
+      return `当前频道已禁止发送：${(await channelSettings.get(session.cid)).deny.join(', ')}`
+    })
+
+  ctx.command(`${config.channelCommandName}.移除 <...关键词>`)
+    .userFields(['authority'])
+    .check(checkChannelAdmin)
+    .action(async ({ session }, ...keywords) => {
+      if (!keywords.length) return '请提供关键词'
+      const setting = await channelSettings.get(session.cid)
+      await channelSettings.update(session.cid, {
+        allow: setting.allow.filter(name => !keywords.includes(name)),
+        deny: setting.deny.filter(name => !keywords.includes(name)),
+      })
+      return `已从允许和禁止列表中移除：${keywords.join(', ')}`
+    })
+
+  ctx.command(`${config.channelCommandName}.重置`)
+    .userFields(['authority'])
+    .check(checkChannelAdmin)
+    .action(async ({ session }) => {
+      await channelSettings.update(session.cid, { passive: true, allow: [], deny: [] })
+      return '已恢复当前频道的默认设置'
+    })
+
+  // 统计指令
+  const statsSince = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000)
+
+  ctx.command(`${config.statsCommandName}`)
+    .option('days', '-d <天数:posint> 统计最近几天的数据', { fallback: 7 })
+    .usage(`查看图库使用统计。
+${config.statsCommandName}.热门：发送次数最多的文件夹
+${config.statsCommandName}.冷门：发送次数最少（或从未发送）的文件夹
+${config.statsCommandName}.贡献：存图数量最多的用户
+${config.statsCommandName}.最近：最近保存的文件
+以上指令均支持 -d 天数 选项，默认 7 天。`)
+    .action(async ({ options }) => {
+      const since = statsSince(options.days)
+      const sends = await statistics.query('send', since)
+      const saves = await statistics.query('save', since)
+      const sendCount = sends.reduce((sum, record) => sum + record.count, 0)
+      const fileCount = gallery.fileCount
+      return [
+        `最近 ${options.days} 天：发图 ${sendCount} 张（${sends.length} 次请求），存图 ${saves.length} 个`,
+        `活跃用户 ${Statistics.rank(sends, 'userId').length} 人，活跃频道 ${Statistics.rank(sends, 'channel').length} 个`,
+        `图库共 ${gallery.folders.length} 个文件夹，${fileCount} 个文件`,
+      ].join('\n')
+    })
+
+  ctx.command(`${config.statsCommandName}.热门`)
+    .option('days', '-d <天数:posint>', { fallback: 7 })
+    .action(async ({ options }) => {
+      const ranking = Statistics.rank(await statistics.query('send', statsSince(options.days)), 'folder')
+      if (!ranking.length) return `最近 ${options.days} 天没有发图记录`
+      const lines = ranking.slice(0, config.statsTopCount).map(([folder, count], index) => `${index + 1}. ${folder}：${count} 张`)
+      return [`最近 ${options.days} 天热门文件夹：`, ...lines].join('\n')
+    })
+
+  ctx.command(`${config.statsCommandName}.冷门`)
+    .option('days', '-d <天数:posint>', { fallback: 7 })
+    .action(async ({ options }) => {
+      const sends = Statistics.rank(await statistics.query('send', statsSince(options.days)), 'folder')
+      const counts = new Map(sends.map(([folder, count]) => [folder, count]))
+      const ranking = gallery.folders
+        .map(folder => [folder, counts.get(folder.name) || 0] as const)
+        .sort((a, b) => a[1] - b[1])
+      if (!ranking.length) return '图库为空'
+      const lines = ranking.slice(0, config.statsTopCount).map(([folder, count], index) => {
+        return `${index + 1}. ${folder.name}：${count} 张（共 ${folder.files.length} 个文件）`
+      })
+      return [`最近 ${options.days} 天冷门文件夹：`, ...lines].join('\n')
+    })
+
+  ctx.command(`${config.statsCommandName}.贡献`)
+    .option('days', '-d <天数:posint>', { fallback: 7 })
+    .action(async ({ options }) => {
+      const ranking = Statistics.rank(await statistics.query('save', statsSince(options.days)), 'userId')
+      if (!ranking.length) return `最近 ${options.days} 天没有存图记录`
+      const lines = ranking.slice(0, config.statsTopCount).map(([, count, sample], index) => `${index + 1}. ${sample.userName}：${count} 个`)
+      return [`最近 ${options.days} 天存图贡献：`, ...lines].join('\n')
+    })
+
+  ctx.command(`${config.statsCommandName}.最近`)
+    .option('days', '-d <天数:posint>', { fallback: 7 })
+    .action(async ({ options }) => {
+      const records = await statistics.query('save', statsSince(options.days))
+      if (!records.length) return `最近 ${options.days} 天没有存图记录`
+      const lines = records.slice(0, config.statsTopCount).map((record) => {
+        return `${record.time.toLocaleString()} ${record.userName} → ${record.folder}/${record.file}`
+      })
+      return [`最近保存的文件：`, ...lines].join('\n')
+    })
+
+  // 刷新图库索引指令
+  ctx.command(`${config.reloadCommandName}`, { authority: config.reloadAuthority })
+    .usage('重新扫描图库目录，在手动增删文件后立即生效。')
+    .action(async () => {
+      await gallery.refresh()
+      const fileCount = gallery.fileCount
+      return `图库索引已刷新：${gallery.folders.length} 个文件夹，${fileCount} 个文件`
+    })
+
+  // 精确匹配失败后尝试模糊匹配，命中时以对应的别名重新发图
+  async function processFuzzyRequest(session: Session, input: string, suggest: boolean, usePinyin = true) {
+    // 拆分关键词与后面的标签筛选和数量，如 "maotu +gif 3"
+    const match = input.match(/^(.+?)((?:\s+[+\-]\S+|\s*\d+)*)\s*$/s)
+    if (!match) return false
+    const [, keyword, suffix] = match
+    const result = matcher.resolve(keyword, await getVisibility(session), { pinyin: usePinyin, suggest })
+    if (result.alias) {
+      loginfo(`输入 "${keyword}" 模糊匹配到别名 "${result.alias}"`)
+      return processImageRequest(session, `${result.alias} ${suffix}`)
     }
+    if (suggest && result.suggestions.length) {
+      await session.send(`找不到"${keyword}"，你是不是想找：${result.suggestions.join('、')}？`)
+      return true
+    }
+    return false
   }
 
   // 发图指令
@@ -541,11 +2127,9 @@ export function apply(ctx: Context, config: Config) {
       }
       // 复用逻辑
       const processed = await processImageRequest(session, keyword)
-      if (!processed) {
-        // 如果需要和“猫图”完全一致的逻辑：
-        // "猫图" 不存在 -> 无反应
-        // 这里的 processed 为 false 表示没找到匹配。
-        // 所以无反应。
+      if (!processed && config.fuzzyMatch) {
+        // 精确匹配失败时尝试模糊匹配，仍未命中则给出建议
+        await processFuzzyRequest(session, keyword, true)
       }
     })
 
@@ -554,9 +2138,154 @@ export function apply(ctx: Context, config: Config) {
     const input = session.stripped.content.trim()
     if (!input) return next()
 
+    // 频道关闭了关键词触发时，只能通过发图指令发图
+    const setting = await channelSettings.get(session.cid)
+    if (!setting.passive) return next()
+
     // loginfo('收到消息:', { ... })
 
-    await processImageRequest(session, input)
+    const processed = await processImageRequest(session, input)
+    if (!processed && config.fuzzyPassive) {
+      // 被动触发只做大小写和全角半角的宽松匹配，避免误触发
+      await processFuzzyRequest(session, input, false, false)
+    }
     return next()
   }, true)
+
+  // 控制台传入的路径必须是图库或临时目录中的媒体文件，避免越权访问其他文件
+  function checkPaths(paths: string[]) {
+    for (const path of paths) {
+      const valid = isMediaFile(path) && [config.imagePath, config.tempPath].some((root) => {
+        const rel = relative(root, path)
+        return rel && !rel.startsWith('..') && !isAbsolute(rel)
+      })
+      if (!valid) throw new Error(`无效的文件路径：${path}`)
+    }
+  }
+
+  // 控制台页面，安装控制台插件后可在网页中浏览和管理图库
+  ctx.inject(['console'], (ctx) => {
+    ctx.console.addEntry({
+      dev: resolve(__dirname, '../client/index.ts'),
+      prod: resolve(__dirname, '../dist'),
+    })
+
+    const options = { authority: config.consoleAuthority }
+
+    ctx.console.addListener('image-selector/folders', async () => {
+      return gallery.folders.map(folder => ({
+        name: folder.name,
+        aliases: folder.aliases,
+        count: folder.files.length,
+        depth: folder.depth,
+      }))
+    }, options)
+
+    ctx.console.addListener('image-selector/files', async (name) => {
+      const folder = gallery.get(name)
+      if (!folder) throw new Error(`找不到"${name}"文件夹`)
+      return folder.files.map(file => ({
+        name: file,
+        path: join(folder.path, file),
+        video: !!mediaByExtension(file)?.video,
+      }))
+    }, options)
+
+    ctx.console.addListener('image-selector/thumbnail', async (path) => {
+      checkPaths([path])
+      const buffer = await reviewQueue.thumbnailBuffer(path)
+      return buffer ? `data:image/jpeg;base64,${buffer.toString('base64')}` : ''
+    }, options)
+
+    // 以完整的别名列表替换文件夹当前的别名
+    ctx.console.addListener('image-selector/aliases', async (name, aliases) => {
+      const folder = gallery.get(name)
+      if (!folder) throw new Error(`找不到"${name}"文件夹`)
+      if (!aliases.length) throw new Error('文件夹至少需要保留一个别名')
+      const error = checkAliases(aliases, folder)
+      if (error) throw new Error(error)
+
+      const added = aliases.filter(alias => !folder.aliases.includes(alias))
+      const removed = folder.aliases.filter(alias => !aliases.includes(alias))
+      await saveAliases(folder.name, added, removed)
+    }, options)
+
+    ctx.console.addListener('image-selector/upload', async (keyword, files) => {
+      // 控制台连接不携带可信的用户身份，统一以控制台身份上传，尺寸限制和额度按 console 用户计算
+      const sizeLimit = resolveSizeLimit(config, 'console')
+      if (sizeLimit <= 0) throw new Error('该用户无上传权限或已被禁止上传')
+
+      // 与存图指令相同的匹配逻辑，控制台中所有文件夹均可见
+      let folder = keyword ? gallery.get(keyword) || gallery.find(keyword)[0] : undefined
+      if (keyword && !folder && config.fuzzyMatch) {
+        const { alias } = matcher.resolve(keyword, undefined, { suggest: false })
+        if (alias) folder = gallery.find(alias)[0]
+      }
+      if (keyword && !folder && !config.saveFailFallback) {
+        throw new Error(`关键词 "${keyword}" 匹配失败，已取消保存`)
+      }
+
+      const target = await prepareSave(keyword, folder, true)
+      const uploader: Uploader = { platform: 'console', userId: 'console', username: '控制台', guildId: '', channelId: '', sizeLimit }
+      const { saved, skipped, rejected } = await saveBatch(target, uploader, folder, files.map(file => ({
+        label: file.name,
+        url: '',
+        load: async () => ({ data: Buffer.from(file.data, 'base64') }),
+      })))
+      if (rejected) throw new Error(rejected)
+      return { folder: target.folderName, saved, skipped } as ConsoleUploadResult
+    }, options)
+
+    ctx.console.addListener('image-selector/review', async () => {
+      return (await reviewQueue.list()).map(item => ({
+        name: item.file,
+        path: item.path,
+        video: !!mediaByExtension(item.file)?.video,
+        group: item.group,
+        time: item.mtimeMs,
+      }))
+    }, options)
+
+    ctx.console.addListener('image-selector/approve', async (paths, keyword) => {
+      const items = (await reviewQueue.list()).filter(item => paths.includes(item.path))
+      if (!items.length) throw new Error('未找到指定的待审核文件')
+
+      let approved = 0
+      const errors = new Set<string>()
+      for (const item of items) {
+        const folder = await approveReview(item, keyword)
+        if (typeof folder === 'string') {
+          errors.add(folder)
+        } else {
+          approved++
+        }
+      }
+      if (!approved) throw new Error([...errors].join('\n'))
+      return [`已通过 ${approved} 个文件`, ...errors].join('\n')
+    }, options)
+
+    ctx.console.addListener('image-selector/remove', async (paths) => {
+      checkPaths(paths)
+      for (const path of paths) {
+        await removeFile(path)
+      }
+      await gallery.refresh()
+      return `已删除 ${paths.length} 个文件`
+    }, options)
+
+    ctx.console.addListener('image-selector/move', async (paths, keyword) => {
+      checkPaths(paths)
+      const folder = findUniqueFolder(keyword)
+      if (typeof folder === 'string') throw new Error(folder)
+
+      let moved = 0
+      for (const path of paths) {
+        if (dirname(path) === folder.path) continue
+        await moveFile(path, await uniquePath(storage, folder.path, basename(path)))
+        moved++
+      }
+      await gallery.refresh()
+      return `已将 ${moved} 个文件移入"${folder.name}"文件夹`
+    }, options)
+  })
 }
@@ -0,0 +1,153 @@
+import { Session } from 'koishi'
+
+import { Config } from '.'
+import { GalleryFolder } from './gallery'
+
+export interface SendLimit {
+  // 时间窗口内最多发送的图片数量，0 为不限制
+  maxCount: number
+  // 时间窗口 (秒)
+  period: number
+  // 两次发图之间的冷却时间 (秒)
+  cooldown?: number
+}
+
+export function lookup<T>(list: T[], key: keyof T, id: string) {
+  if (!Array.isArray(list) || id === undefined) return
+  let result: T
+  // 与转换为字典后查找一致：重复项以最后一个为准
+  for (const item of list) {
+    if (item && item[key] === id) result = item
+  }
+  return result
+}
+
+// 按目录名、别名查找文件夹的限制，都没有时使用 default 项
+export function lookupFolder<T extends { folder: string }>(list: T[], folder: GalleryFolder) {
+  return lookup(list, 'folder', folder.name)
+    ?? folder.aliases.map(alias => lookup(list, 'folder', alias)).find(Boolean)
+    ?? lookup(list, 'folder', 'default')
+}
+
+// 查找顺序: 用户独立设置 -> 群组独立设置 -> 群组默认设置 -> 全局默认设置(用户default)
+export function resolveLimit<U extends { userId: string }, G extends { guildId: string }>(
+  userLimits: U[],
+  groupLimits: G[],
+  userId: string,
+  guildId?: string,
+): U | G | undefined {
+  return lookup(userLimits, 'userId', userId)
+    ?? (guildId ? lookup(groupLimits, 'guildId', guildId) : undefined)
+    ?? (guildId ? lookup(groupLimits, 'guildId', 'default') : undefined)
+    ?? lookup(userLimits, 'userId', 'default')
+}
+
+// 单个文件的上传尺寸限制 (MB)，未设置或为非法值（负数等）时视为 0，即禁止上传
+export function resolveSizeLimit(config: Config, userId: string, guildId?: string) {
+  const userLimits = (config.userLimits || []).filter(item => item?.sizeLimit !== undefined)
+  const groupLimits = (config.groupLimits || []).filter(item => item?.sizeLimit !== undefined)
+  const limit = resolveLimit(userLimits, groupLimits, userId, guildId)?.sizeLimit
+  return typeof limit === 'number' && limit > 0 ? limit : 0
+}
+
+export interface RateLimitResult {
+  // 本次允许发送的数量
+  count: number
+  // 被冷却或时间窗口限制时距离可再次发送的秒数，未被限制时为空
+  retryAfter?: number
+}
+
+// 基于滑动窗口的发图频率限制，分别统计用户、频道和频道内的文件夹
+// 只保存尚未过期的记录，过期后即从表中删除，长期运行时不会随用户和频道数量不断增长
+export class RateLimiter {
+  // 窗口内每张图片的过期时间，按发送顺序排列
+  private history = new Map<string, number[]>()
+  // 冷却结束的时间
+  private cooldowns = new Map<string, number>()
+
+  constructor(private config: Config) {}
+
+  private usage(key: string, limit: SendLimit, now: number) {
+    const records = (this.history.get(key) || []).filter(expires => expires > now)
+    if (records.length) {
+      this.history.set(key, records)
+    } else {
+      this.history.delete(key)
+    }
+    return {
+      remaining: Math.max(limit.maxCount - records.length, 0),
+      // 最早一条记录过期的时间
+      retryAfter: records.length ? Math.ceil((records[0] - now) / 1000) : 0,
+    }
+  }
+
+  // 适用的限制，用户的冷却时间在每个频道内单独计算
+  private limits(session: Session, folder: GalleryFolder) {
+    const channelLimit = lookup(this.config.sendChannelLimits, 'channelId', session.channelId)
+      ?? lookup(this.config.sendChannelLimits, 'channelId', 'default')
+    const folderLimit = lookupFolder(this.config.sendFolderLimits, folder)
+
+    const result: { key: string; cooldownKey: string; limit: SendLimit }[] = [{
+      key: `user:${session.platform}:${session.userId}`,
+      cooldownKey: `user:${session.platform}:${session.userId}:${session.cid}`,
+      limit: resolveLimit(this.config.sendUserLimits, this.config.sendGroupLimits, session.userId, session.guildId),
+    }, {
+      key: `channel:${session.cid}`,
+      cooldownKey: `channel:${session.cid}`,
+      limit: channelLimit,
+    }, {
+      key: `folder:${session.cid}:${folder.name}`,
+      cooldownKey: `folder:${session.cid}:${folder.name}`,
+      limit: folderLimit,
+    }]
+    return result.filter(({ limit }) => limit)
+  }
+
+  private windowed(limit: SendLimit) {
+    return limit.maxCount > 0 && limit.period > 0
+  }
+
+  // 检查本次请求最多可以发送多少张，不会记录使用量
+  check(session: Session, folder: GalleryFolder, count: number): RateLimitResult {
+    const now = Date.now()
+    let retryAfter = 0
+    for (const { key, cooldownKey, limit } of this.limits(session, folder)) {
+      const cooldownEnd = this.cooldowns.get(cooldownKey)
+      if (cooldownEnd > now) {
+        count = 0
+        retryAfter = Math.max(retryAfter, Math.ceil((cooldownEnd - now) / 1000))
+      } else if (cooldownEnd !== undefined) {
+        this.cooldowns.delete(cooldownKey)
+      }
+
+      if (!this.windowed(limit)) continue
+      const usage = this.usage(key, limit, now)
+      count = Math.min(count, usage.remaining)
+      if (!usage.remaining) retryAfter = Math.max(retryAfter, usage.retryAfter)
+    }
+    // 只有冷却或时间窗口实际生效时才视为被限制
+    return retryAfter > 0 ? { count: 0, retryAfter } : { count }
+  }
+
+  record(session: Session, folder: GalleryFolder, count: number) {
+    const now = Date.now()
+    this.prune(now)
+    for (const { key, cooldownKey, limit } of this.limits(session, folder)) {
+      if (limit.cooldown > 0) this.cooldowns.set(cooldownKey, now + limit.cooldown * 1000)
+      if (!this.windowed(limit)) continue
+      const records = this.history.get(key) || []
+      for (let i = 0; i < count; i++) records.push(now + limit.period * 1000)
+      this.history.set(key, records)
+    }
+  }
+
+  // 删除已全部过期的记录，包括之后不再发图的用户和频道
+  private prune(now: number) {
+    for (const [key, records] of this.history) {
+      if (records[records.length - 1] <= now) this.history.delete(key)
+    }
+    for (const [key, cooldownEnd] of this.cooldowns) {
+      if (cooldownEnd <= now) this.cooldowns.delete(key)
+    }
+  }
+}
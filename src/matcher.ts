@@ -0,0 +1,98 @@
+import { pinyin } from 'pinyin-pro'
+
+import { Config } from '.'
+import { Gallery, GalleryFolder } from './gallery'
+
+interface AliasKeys {
+  // 统一全角半角与大小写后的别名
+  normalized: string
+  // 不带声调的全拼，如 "maotu"
+  full: string
+  // 拼音首字母，如 "mt"
+  initials: string
+}
+
+export interface FuzzyResult {
+  // 模糊匹配到的别名，可直接用于精确匹配
+  alias?: string
+  // 未匹配时编辑距离最近的候选别名
+  suggestions: string[]
+}
+
+// 统一全角半角（NFKC）与大小写
+export function normalize(text: string) {
+  return text.normalize('NFKC').toLowerCase().replace(/\s+/g, '')
+}
+
+export function editDistance(a: string, b: string) {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = a[i - 1] === b[j - 1]
+        ? previous[j - 1]
+        : Math.min(previous[j - 1], previous[j], current[j - 1]) + 1
+    }
+    previous = current
+  }
+  return previous[b.length]
+}
+
+// 可选的模糊匹配层，只在精确匹配失败后使用
+export class Matcher {
+  private cache = new Map<string, AliasKeys>()
+
+  constructor(private gallery: Gallery, private config: Config) {}
+
+  private keys(text: string, cache = true): AliasKeys {
+    if (this.cache.has(text)) return this.cache.get(text)
+    const normalized = normalize(text)
+    const options = { toneType: 'none', type: 'array', nonZh: 'consecutive' } as const
+    const keys = {
+      normalized,
+      full: this.config.fuzzyPinyin ? pinyin(normalized, options).join('') : normalized,
+      initials: this.config.fuzzyPinyin ? pinyin(normalized, { ...options, pattern: 'first' }).join('') : normalized,
+    }
+    if (cache) this.cache.set(text, keys)
+    return keys
+  }
+
+  // 依次尝试大小写/全半角、全拼、拼音首字母匹配，仍未命中时按编辑距离给出建议
+  // 输入含有汉字时，拼音相同只说明读音相同（如 "猫兔" 与 "猫图"），只作为建议而不直接命中
+  resolve(keyword: string, filter?: (folder: GalleryFolder) => boolean, options: { pinyin?: boolean; suggest?: boolean } = {}): FuzzyResult {
+    // 用户输入不缓存，避免缓存随聊天消息无限增长
+    const input = this.keys(keyword, false)
+    const usePinyin = this.config.fuzzyPinyin && options.pinyin !== false
+    const candidates: [string, AliasKeys][] = []
+    for (const [alias, folders] of this.gallery.aliasMap) {
+      if (filter && !folders.some(filter)) continue
+      candidates.push([alias, this.keys(alias)])
+    }
+
+    const homophone = input.full !== input.normalized
+    const fields: (keyof AliasKeys)[] = usePinyin ? ['normalized', 'full', 'initials'] : ['normalized']
+    let homophones: string[] = []
+    for (const field of fields) {
+      // 输入的拼音与别名的拼音比较，首字母匹配时输入本身即为首字母
+      const value = field === 'initials' ? input.normalized : input[field]
+      const found = candidates.filter(([, keys]) => keys[field] === value).map(([alias]) => alias)
+      if (!found.length) continue
+      if (field === 'normalized' || !homophone) return { alias: found[0], suggestions: [] }
+      homophones = found
+      break
+    }
+
+    if (options.suggest === false) return { suggestions: [] }
+    const maxDistance = this.config.fuzzySuggestDistance
+    if (maxDistance <= 0) return { suggestions: homophones.slice(0, 3) }
+    const scored = candidates.map(([alias, keys]) => {
+      let distance = editDistance(input.normalized, keys.normalized)
+      if (usePinyin) distance = Math.min(distance, editDistance(input.full, keys.full))
+      return [alias, distance] as const
+    }).filter(([alias, distance]) => distance <= maxDistance && distance < alias.length)
+    scored.sort((a, b) => a[1] - b[1])
+    // 同音的别名排在编辑距离相近的别名之前
+    const suggestions = new Set([...homophones, ...scored.map(([alias]) => alias)])
+    return { suggestions: [...suggestions].slice(0, 3) }
+  }
+}
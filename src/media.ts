@@ -0,0 +1,155 @@
+import { h } from 'koishi'
+
+import { extname } from 'node:path'
+
+export interface MediaFormat {
+  // 格式名，同时作为文件的格式标签，如 "jpg"、"mp4"
+  name: string
+  // 认可的扩展名，第一个用于保存
+  extensions: string[]
+  mime: string
+  video: boolean
+  // 根据文件头判断是否为该格式
+  test(head: Buffer): boolean
+}
+
+// 识别格式需要读取的文件头长度
+export const HEAD_LENGTH = 64
+
+const ascii = (head: Buffer, offset: number, text: string) => {
+  return head.toString('latin1', offset, offset + text.length) === text
+}
+
+const bytes = (head: Buffer, offset: number, values: number[]) => {
+  return values.every((value, index) => head[offset + index] === value)
+}
+
+// ISO 基础媒体文件（mp4、mov、avif、heic）的主品牌和兼容品牌
+const brands = (head: Buffer) => {
+  if (!ascii(head, 4, 'ftyp')) return []
+  const size = Math.min(head.readUInt32BE(0), head.length)
+  const result = [head.toString('latin1', 8, 12)]
+  for (let offset = 16; offset + 4 <= size; offset += 4) {
+    result.push(head.toString('latin1', offset, offset + 4))
+  }
+  return result
+}
+
+const HEIC_BRANDS = ['heic', 'heix', 'heim', 'heis', 'hevc', 'hevx']
+
+// 按识别优先级排列：更具体的格式在前
+export const MEDIA_FORMATS: MediaFormat[] = [
+  {
+    name: 'jpg',
+    extensions: ['.jpg', '.jpeg'],
+    mime: 'image/jpeg',
+    video: false,
+    test: head => bytes(head, 0, [0xff, 0xd8, 0xff]),
+  },
+  {
+    name: 'png',
+    extensions: ['.png'],
+    mime: 'image/png',
+    video: false,
+    test: head => bytes(head, 0, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+  },
+  {
+    name: 'gif',
+    extensions: ['.gif'],
+    mime: 'image/gif',
+    video: false,
+    test: head => ascii(head, 0, 'GIF87a') || ascii(head, 0, 'GIF89a'),
+  },
+  {
+    name: 'webp',
+    extensions: ['.webp'],
+    mime: 'image/webp',
+    video: false,
+    test: head => ascii(head, 0, 'RIFF') && ascii(head, 8, 'WEBP'),
+  },
+  {
+    name: 'bmp',
+    extensions: ['.bmp'],
+    mime: 'image/bmp',
+    video: false,
+    // 文件头中的保留字段固定为 0
+    test: head => ascii(head, 0, 'BM') && bytes(head, 6, [0, 0, 0, 0]),
+  },
+  {
+    name: 'tiff',
+    extensions: ['.tiff', '.tif'],
+    mime: 'image/tiff',
+    video: false,
+    test: head => bytes(head, 0, [0x49, 0x49, 0x2a, 0x00]) || bytes(head, 0, [0x4d, 0x4d, 0x00, 0x2a]),
+  },
+  {
+    name: 'avif',
+    extensions: ['.avif'],
+    mime: 'image/avif',
+    video: false,
+    test: head => brands(head).some(brand => brand === 'avif' || brand === 'avis'),
+  },
+  {
+    name: 'heic',
+    extensions: ['.heic', '.heif'],
+    mime: 'image/heic',
+    video: false,
+    test: (head) => {
+      const [major, ...compatible] = brands(head)
+      if (HEIC_BRANDS.includes(major)) return true
+      // 通用的 HEIF 品牌，兼容品牌中包含 HEVC 编码时视为 HEIC
+      return (major === 'mif1' || major === 'msf1') && compatible.some(brand => HEIC_BRANDS.includes(brand))
+    },
+  },
+  {
+    name: 'mov',
+    extensions: ['.mov'],
+    mime: 'video/quicktime',
+    video: true,
+    // 旧版 QuickTime 文件没有 ftyp，直接以其他顶层 atom 开头
+    test: head => brands(head)[0] === 'qt  ' || ['moov', 'mdat', 'wide', 'free', 'skip', 'pnot'].some(atom => ascii(head, 4, atom)),
+  },
+  {
+    name: 'mp4',
+    extensions: ['.mp4', '.m4v'],
+    mime: 'video/mp4',
+    video: true,
+    test: head => ascii(head, 4, 'ftyp'),
+  },
+  {
+    name: 'avi',
+    extensions: ['.avi'],
+    mime: 'video/x-msvideo',
+    video: true,
+    test: head => ascii(head, 0, 'RIFF') && ascii(head, 8, 'AVI '),
+  },
+  {
+    name: 'webm',
+    extensions: ['.webm'],
+    mime: 'video/webm',
+    video: true,
+    // EBML 头中的文档类型为 webm，其他 Matroska 文件不支持
+    test: head => bytes(head, 0, [0x1a, 0x45, 0xdf, 0xa3]) && head.includes('webm', 4, 'latin1'),
+  },
+]
+
+// 根据文件内容识别格式，不是支持的图片或视频时返回空
+export function detectMedia(data: Buffer) {
+  const head = data.subarray(0, HEAD_LENGTH)
+  return MEDIA_FORMATS.find(format => format.test(head))
+}
+
+// 根据扩展名查找格式，用于扫描图库等无法逐个读取文件的场合
+export function mediaByExtension(filename: string) {
+  const ext = extname(filename).toLowerCase()
+  return MEDIA_FORMATS.find(format => format.extensions.includes(ext))
+}
+
+export function isMediaFile(filename: string) {
+  return !!mediaByExtension(filename)
+}
+
+// 提取消息中的全部图片和视频元素，包括合并转发消息中嵌套的内容
+export function extractMedia(content: string | h[]) {
+  return h.select(content, 'img, mface, image, video')
+}
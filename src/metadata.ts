@@ -0,0 +1,109 @@
+import { Context, Dict } from 'koishi'
+
+import { basename, dirname, join } from 'node:path'
+
+import { Config } from '.'
+import { Storage } from './storage'
+
+declare module 'koishi' {
+  interface Events {
+    // 上传记录写入存储后触发，新增时 previous 为空，删除时 current 为空
+    'image-selector/metadata'(store: MetadataStore, previous?: FileMetadata, current?: FileMetadata): void
+  }
+}
+
+export interface FileMetadata {
+  // 上传者标识，如 "onebot:123456"
+  uploaderId: string
+  uploaderName: string
+  platform: string
+  // 私聊时为空
+  guildId: string
+  channelId: string
+  // ISO 8601 格式的保存时间
+  time: string
+  // 原始图片链接
+  url: string
+  size: number
+  mime: string
+  sha256: string
+}
+
+// 上传记录清单：与标签清单相同，每个文件夹一份，以文件名为键，不依赖文件名模板
+export class MetadataStore {
+  private locks = new Map<string, Promise<void>>()
+
+  constructor(private ctx: Context, private config: Config, private storage: Storage) {}
+
+  private file(folder: string) {
+    return join(folder, this.config.metadataFile)
+  }
+
+  async read(folder: string): Promise<Dict<FileMetadata>> {
+    try {
+      return JSON.parse((await this.storage.read(this.file(folder))).toString('utf8'))
+    } catch (error) {
+      if (error?.code !== 'ENOENT') {
+        this.ctx.logger.warn('读取上传记录失败:', this.file(folder), error)
+      }
+      return {}
+    }
+  }
+
+  // 同一文件夹的清单串行读写，避免并发存图时互相覆盖
+  private update(folder: string, name: string, metadata?: FileMetadata) {
+    const task = (this.locks.get(folder) || Promise.resolve()).then(async () => {
+      const entries = await this.read(folder)
+      const previous = entries[name]
+      if (metadata) {
+        entries[name] = metadata
+      } else {
+        delete entries[name]
+      }
+      if (Object.keys(entries).length) {
+        await this.storage.write(this.file(folder), Buffer.from(JSON.stringify(entries, null, 2)))
+      } else {
+        await this.storage.remove(this.file(folder))
+      }
+      this.ctx.emit('image-selector/metadata', this, previous, metadata)
+    })
+    const lock = task.catch(() => {}).finally(() => {
+      if (this.locks.get(folder) === lock) this.locks.delete(folder)
+    })
+    this.locks.set(folder, lock)
+    return task
+  }
+
+  async get(path: string): Promise<FileMetadata | undefined> {
+    return (await this.read(dirname(path)))[basename(path)]
+  }
+
+  set(path: string, metadata: FileMetadata) {
+    return this.update(dirname(path), basename(path), metadata)
+  }
+
+  async remove(path: string) {
+    // 没有记录时不创建清单文件
+    if (!await this.get(path)) return
+    await this.update(dirname(path), basename(path))
+  }
+
+  // 文件移动后同步迁移其上传记录
+  async move(source: string, target: string) {
+    const metadata = await this.get(source)
+    if (!metadata) return
+    await this.set(target, metadata)
+    await this.remove(source)
+  }
+
+  // 读取多个文件夹中的全部上传记录，返回 [文件路径, 记录]
+  async collect(folders: string[]) {
+    const results: [string, FileMetadata][] = []
+    for (const folder of new Set(folders)) {
+      for (const [file, metadata] of Object.entries(await this.read(folder))) {
+        results.push([join(folder, file), metadata])
+      }
+    }
+    return results
+  }
+}
@@ -0,0 +1,113 @@
+import { Context } from 'koishi'
+import { Jimp } from 'jimp'
+
+import { promises as fs } from 'node:fs'
+import { dirname, join } from 'node:path'
+
+import { Config } from '.'
+import { ChannelSettings } from './channel'
+import { GalleryFolder } from './gallery'
+import { MEDIA_FORMATS, MediaFormat } from './media'
+
+interface WebpCodec {
+  encode(data: ImageData, options?: { quality?: number }): Promise<ArrayBuffer>
+  decode(buffer: ArrayBuffer): Promise<ImageData>
+}
+
+// jimp 可以直接解码和编码的格式
+const JIMP_FORMATS = ['jpg', 'png', 'gif', 'bmp', 'tiff']
+
+// 动图和视频不做处理，避免丢帧
+export function isAnimated(data: Buffer, format: MediaFormat) {
+  switch (format.name) {
+    case 'gif': {
+      // 每一帧前都有一个图形控制扩展块
+      let frames = 0
+      for (let offset = data.indexOf('\x21\xf9\x04', 0, 'latin1'); offset >= 0; offset = data.indexOf('\x21\xf9\x04', offset + 3, 'latin1')) {
+        if (++frames > 1) return true
+      }
+      return false
+    }
+    case 'webp':
+      // VP8X 扩展头的动画标志位
+      return data.toString('latin1', 12, 16) === 'VP8X' && (data[20] & 0x02) !== 0
+    case 'png': {
+      // APNG 在第一个 IDAT 之前包含 acTL 块
+      const actl = data.indexOf('acTL', 8, 'latin1')
+      return actl >= 0 && actl < data.indexOf('IDAT', 8, 'latin1')
+    }
+    default:
+      return false
+  }
+}
+
+// 存图前的可选处理：去除元数据、限制尺寸、转换格式，使用纯 JS / WASM 实现
+export class ImageNormalizer {
+  private webp: Promise<WebpCodec>
+
+  constructor(private ctx: Context, private config: Config) {}
+
+  // 未开启或目标文件夹（及其上级文件夹）在跳过列表中时不处理
+  enabled(folder?: GalleryFolder) {
+    if (!this.config.normalizeEnabled) return false
+    return !folder || !ChannelSettings.matches(folder, this.config.normalizeSkipFolders || [])
+  }
+
+  // WebP 编解码器按需加载，WASM 文件从本地读取而不是通过网络获取
+  private codec() {
+    return this.webp ||= (async () => {
+      const root = dirname(require.resolve('@jsquash/webp/package.json'))
+      const { simd } = await import('wasm-feature-detect')
+      const encoder = await import('@jsquash/webp/encode.js')
+      const decoder = await import('@jsquash/webp/decode.js')
+      const encodeWasm = join(root, 'codec/enc', await simd() ? 'webp_enc_simd.wasm' : 'webp_enc.wasm')
+      await encoder.init(await WebAssembly.compile(await fs.readFile(encodeWasm)))
+      await decoder.init(await WebAssembly.compile(await fs.readFile(join(root, 'codec/dec/webp_dec.wasm'))))
+      return { encode: encoder.default, decode: decoder.default }
+    })()
+  }
+
+  private async decode(data: Buffer, format: MediaFormat) {
+    if (format.name === 'webp') {
+      const { decode } = await this.codec()
+      const image = await decode(data.buffer.slice(data.byteOffset, data.byteOffset + data.length) as ArrayBuffer)
+      return Jimp.fromBitmap({ data: Buffer.from(image.data.buffer), width: image.width, height: image.height })
+    }
+    return Jimp.fromBuffer(data)
+  }
+
+  // 返回处理后的数据和格式，无法处理的文件原样返回
+  async process(data: Buffer, format: MediaFormat): Promise<{ data: Buffer; format: MediaFormat }> {
+    if (format.video || isAnimated(data, format)) return { data, format }
+    if (format.name !== 'webp' && !JIMP_FORMATS.includes(format.name)) return { data, format }
+
+    const targetName = this.config.normalizeFormat === 'original' ? format.name : this.config.normalizeFormat
+    const target = MEDIA_FORMATS.find(item => item.name === targetName)
+
+    try {
+      // 解码时会按 EXIF 方向旋转，重新编码后不再包含 EXIF、GPS 等元数据
+      const image = await this.decode(data, format)
+      const maxSize = this.config.normalizeMaxSize
+      if (maxSize > 0 && (image.width > maxSize || image.height > maxSize)) {
+        image.scaleToFit({ w: maxSize, h: maxSize })
+      }
+
+      const quality = this.config.normalizeQuality
+      let output: Buffer
+      if (target.name === 'webp') {
+        const { encode } = await this.codec()
+        const { width, height } = image.bitmap
+        const pixels = new Uint8ClampedArray(image.bitmap.data.buffer, image.bitmap.data.byteOffset, image.bitmap.data.length)
+        output = Buffer.from(await encode({ data: pixels, width, height, colorSpace: 'srgb' }, { quality }))
+      } else if (target.name === 'jpg') {
+        output = await image.getBuffer('image/jpeg', { quality })
+      } else {
+        output = await image.getBuffer(target.mime as 'image/png')
+      }
+      return { data: output, format: target }
+    } catch (error) {
+      this.ctx.logger.warn('图片处理失败，将保存原文件:', error)
+      return { data, format }
+    }
+  }
+}
@@ -0,0 +1,169 @@
+import { Context, Dict } from 'koishi'
+
+import { join } from 'node:path'
+
+import { Config } from '.'
+import { GalleryFolder } from './gallery'
+import { lookup, lookupFolder, resolveLimit } from './limits'
+import { FileMetadata, MetadataStore } from './metadata'
+import { Storage } from './storage'
+
+export interface QuotaLimit {
+  // 最多保存的文件数量，0 为不限制
+  maxFiles: number
+  // 最多占用的空间 (MB)，0 为不限制
+  maxSize: number
+}
+
+export interface QuotaUsage {
+  files: number
+  bytes: number
+}
+
+export interface QuotaStatus {
+  // 额度名称，如 "个人额度"
+  name: string
+  limit: QuotaLimit
+  usage: QuotaUsage
+}
+
+export interface QuotaOwner {
+  platform: string
+  userId: string
+  // 私聊时为空
+  guildId: string
+}
+
+const MB = 1024 * 1024
+
+function isActive(limit: QuotaLimit) {
+  return !!limit && (limit.maxFiles > 0 || limit.maxSize > 0)
+}
+
+// 按上传者和群组汇总的已用量，键分别为 "平台:用户 ID" 和 "平台:群组 ID"
+interface QuotaTotals {
+  users: Dict<QuotaUsage>
+  guilds: Dict<QuotaUsage>
+}
+
+function add(usages: Dict<QuotaUsage>, key: string, record: FileMetadata, sign: number) {
+  const usage = usages[key] ||= { files: 0, bytes: 0 }
+  usage.files += sign
+  usage.bytes += sign * (record.size || 0)
+}
+
+function tally(totals: QuotaTotals, record: FileMetadata, sign: number) {
+  add(totals.users, record.uploaderId, record, sign)
+  if (record.guildId) add(totals.guilds, `${record.platform}:${record.guildId}`, record, sign)
+}
+
+// 累计存图额度：用户和群组按上传记录统计（包括临时目录），文件夹按其中的全部文件统计
+export class QuotaManager {
+  // 首次查询时读取全部上传记录，之后随记录的增删更新，不再重复读取
+  private totals: QuotaTotals
+  private loading: Promise<QuotaTotals>
+  // 读取期间记录发生变化，需要重新读取
+  private stale = false
+
+  constructor(
+    ctx: Context,
+    private config: Config,
+    private storage: Storage,
+    private metadata: MetadataStore,
+    private metadataFolders: () => Promise<string[]>,
+  ) {
+    ctx.on('image-selector/metadata', (store, previous, current) => {
+      if (store !== this.metadata) return
+      if (!this.totals) {
+        this.stale = true
+        return
+      }
+      if (previous) tally(this.totals, previous, -1)
+      if (current) tally(this.totals, current, 1)
+    })
+  }
+
+  private load() {
+    if (this.totals) return Promise.resolve(this.totals)
+    return this.loading ||= (async () => {
+      let totals: QuotaTotals
+      do {
+        this.stale = false
+        totals = { users: {}, guilds: {} }
+        for (const [, record] of await this.metadata.collect(await this.metadataFolders())) {
+          tally(totals, record, 1)
+        }
+      } while (this.stale)
+      this.totals = totals
+      return totals
+    })().finally(() => this.loading = undefined)
+  }
+
+  // 查询适用的额度和已用量，未设置或不限制的额度不返回
+  async status(owner: QuotaOwner, folder?: GalleryFolder) {
+    const result: QuotaStatus[] = []
+
+    // 与上传限制相同的查找顺序: 用户独立设置 -> 群组独立设置 -> 群组默认设置 -> 全局默认设置
+    const userLimit = resolveLimit(this.config.quotaUserLimits, this.config.quotaGroupLimits, owner.userId, owner.guildId)
+    const guildLimit = owner.guildId
+      ? lookup(this.config.quotaGuildLimits, 'guildId', owner.guildId) ?? lookup(this.config.quotaGuildLimits, 'guildId', 'default')
+      : undefined
+
+    if (isActive(userLimit) || isActive(guildLimit)) {
+      const { users, guilds } = await this.load()
+      if (isActive(userLimit)) {
+        result.push({
+          name: '个人额度',
+          limit: userLimit,
+          usage: { files: 0, bytes: 0, ...users[`${owner.platform}:${owner.userId}`] },
+        })
+      }
+      if (isActive(guildLimit)) {
+        result.push({
+          name: '群组额度',
+          limit: guildLimit,
+          usage: { files: 0, bytes: 0, ...guilds[`${owner.platform}:${owner.guildId}`] },
+        })
+      }
+    }
+
+    const folderLimit = folder && lookupFolder(this.config.quotaFolderLimits, folder)
+    if (isActive(folderLimit)) {
+      let bytes = 0
+      // 只限制数量时不需要读取文件大小
+      if (folderLimit.maxSize > 0) {
+        for (const file of folder.files) {
+          const stats = await this.storage.stat(join(folder.path, file)).catch(() => null)
+          bytes += stats?.size || 0
+        }
+      }
+      result.push({
+        name: `文件夹"${folder.name}"的额度`,
+        limit: folderLimit,
+        usage: { files: folder.files.length, bytes },
+      })
+    }
+
+    return result
+  }
+
+  // 返回新增文件后会超出的第一个额度
+  static exceeded(statuses: QuotaStatus[], files: number, bytes: number) {
+    return statuses.find(({ limit, usage }) => {
+      return limit.maxFiles > 0 && usage.files + files > limit.maxFiles
+        || limit.maxSize > 0 && usage.bytes + bytes > limit.maxSize * MB
+    })
+  }
+
+  static format({ name, limit, usage }: QuotaStatus) {
+    const parts: string[] = []
+    if (limit.maxFiles > 0) {
+      parts.push(`${usage.files}/${limit.maxFiles} 个文件（剩余 ${Math.max(limit.maxFiles - usage.files, 0)} 个）`)
+    }
+    if (limit.maxSize > 0) {
+      const remaining = Math.max(limit.maxSize * MB - usage.bytes, 0)
+      parts.push(`${(usage.bytes / MB).toFixed(2)}/${limit.maxSize}MB（剩余 ${(remaining / MB).toFixed(2)}MB）`)
+    }
+    return `${name}：已用 ${parts.join('，')}`
+  }
+}
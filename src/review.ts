@@ -0,0 +1,72 @@
+import { Context, h } from 'koishi'
+import { Jimp } from 'jimp'
+
+import { join } from 'node:path'
+
+import { Config } from '.'
+import { isMediaFile } from './media'
+import { Storage, StorageEntry } from './storage'
+
+export interface ReviewItem {
+  // 临时目录下的子文件夹名（通常是存图时的关键词），直接位于临时目录的文件为空字符串
+  group: string
+  file: string
+  path: string
+  mtimeMs: number
+}
+
+// 临时目录即审核队列：未匹配的存图和低信任用户的存图都会进入这里
+export class ReviewQueue {
+  constructor(private ctx: Context, private config: Config, private storage: Storage) {}
+
+  // 按存入时间排序列出待审核文件，序号即数组下标 + 1
+  async list() {
+    const items: ReviewItem[] = []
+
+    const collect = async (group: string, folder: string, entries: StorageEntry[]) => {
+      for (const entry of entries) {
+        if (entry.directory || !isMediaFile(entry.name)) continue
+        const path = join(folder, entry.name)
+        const { mtimeMs } = await this.storage.stat(path)
+        items.push({ group, file: entry.name, path, mtimeMs })
+      }
+    }
+
+    let entries: StorageEntry[]
+    try {
+      entries = await this.storage.list(this.config.tempPath)
+    } catch (error) {
+      if (error?.code === 'ENOENT') return items
+      throw error
+    }
+
+    await collect('', this.config.tempPath, entries)
+    for (const entry of entries) {
+      if (!entry.directory) continue
+      const folder = join(this.config.tempPath, entry.name)
+      await collect(entry.name, folder, await this.storage.list(folder))
+    }
+
+    items.sort((a, b) => a.mtimeMs - b.mtimeMs)
+    return items
+  }
+
+  // 生成 JPEG 缩略图，无法解码的格式（视频等）返回空
+  async thumbnailBuffer(path: string) {
+    try {
+      const image = await Jimp.fromBuffer(await this.storage.read(path))
+      const size = this.config.reviewThumbnailSize
+      if (image.width > size || image.height > size) {
+        image.scaleToFit({ w: size, h: size })
+      }
+      return await image.getBuffer('image/jpeg')
+    } catch (error) {
+      this.ctx.logger.debug('生成缩略图失败:', path, error)
+    }
+  }
+
+  async thumbnail(item: ReviewItem) {
+    const buffer = await this.thumbnailBuffer(item.path)
+    if (buffer) return h.image(buffer, 'image/jpeg')
+  }
+}
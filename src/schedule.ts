@@ -0,0 +1,212 @@
+import { Context, Time } from 'koishi'
+
+declare module 'koishi' {
+  interface Tables {
+    image_selector_schedule: Schedule
+  }
+}
+
+export interface Schedule {
+  id: number
+  platform: string
+  // 创建定时任务的机器人，找不到时使用同平台的其他机器人
+  selfId: string
+  channelId: string
+  guildId: string
+  // 五段式 cron 表达式：分 时 日 月 周
+  cron: string
+  keyword: string
+  count: number
+  creator: string
+}
+
+const FIELDS = [
+  { name: '分', min: 0, max: 59 },
+  { name: '时', min: 0, max: 23 },
+  { name: '日', min: 1, max: 31 },
+  { name: '月', min: 1, max: 12 },
+  { name: '周', min: 0, max: 7 },
+]
+
+// 最多向后查找的时间，超出则认为表达式永远不会触发（如 2 月 30 日）
+const SEARCH_LIMIT = 5 * 366 * Time.day
+
+// 单次定时器的最长等待时间，避免超出 setTimeout 的上限
+const MAX_DELAY = Time.day
+
+function parseField(text: string, { name, min, max }: typeof FIELDS[number]) {
+  const values = new Set<number>()
+  for (const part of text.split(',')) {
+    const [range, stepText] = part.split('/')
+    const step = stepText === undefined ? 1 : +stepText
+    let start = min, end = max
+    if (range !== '*') {
+      const [first, last = stepText === undefined ? first : String(max)] = range.split('-')
+      start = +first
+      end = +last
+    }
+    if (![start, end, step].every(Number.isInteger) || step < 1 || start < min || end > max || start > end) {
+      throw new Error(`cron 表达式的"${name}"字段无效：${part}`)
+    }
+    for (let value = start; value <= end; value += step) values.add(value)
+  }
+  return values
+}
+
+// 按服务器本地时间解析和计算的 cron 表达式
+export class CronExpression {
+  private fields: Set<number>[]
+  // 日和周都被限制时，两者满足其一即可（与标准 cron 一致）
+  private anyDay: boolean
+  private anyWeekday: boolean
+
+  constructor(public source: string) {
+    const parts = source.trim().split(/\s+/)
+    if (parts.length !== 5) throw new Error('cron 表达式应包含 5 个字段：分 时 日 月 周')
+    this.fields = parts.map((part, index) => parseField(part, FIELDS[index]))
+    // 周日可以写作 0 或 7
+    if (this.fields[4].has(7)) this.fields[4].add(0)
+    this.anyDay = parts[2] === '*'
+    this.anyWeekday = parts[4] === '*'
+  }
+
+  private matchDay(date: Date) {
+    const day = this.fields[2].has(date.getDate())
+    const weekday = this.fields[4].has(date.getDay())
+    if (this.anyDay) return weekday
+    if (this.anyWeekday) return day
+    return day || weekday
+  }
+
+  // 计算给定时间之后（不含当前分钟）的下一次触发时间
+  next(from: Date) {
+    const date = new Date(from.getTime())
+    date.setSeconds(0, 0)
+    date.setMinutes(date.getMinutes() + 1)
+    const limit = from.getTime() + SEARCH_LIMIT
+    while (date.getTime() <= limit) {
+      if (!this.fields[3].has(date.getMonth() + 1)) {
+        date.setMonth(date.getMonth() + 1, 1)
+        date.setHours(0, 0, 0, 0)
+      } else if (!this.matchDay(date)) {
+        date.setDate(date.getDate() + 1)
+        date.setHours(0, 0, 0, 0)
+      } else if (!this.fields[1].has(date.getHours())) {
+        date.setHours(date.getHours() + 1, 0, 0, 0)
+      } else if (!this.fields[0].has(date.getMinutes())) {
+        date.setMinutes(date.getMinutes() + 1, 0, 0)
+      } else {
+        return date
+      }
+    }
+  }
+}
+
+// 定时发图任务，数据库可用时持久化，否则仅保存在内存中
+export class Scheduler {
+  private database: Context['database']
+  private memory: Schedule[] = []
+  private timers = new Map<number, () => void>()
+
+  constructor(private ctx: Context, private execute: (schedule: Schedule) => Promise<void>) {
+    ctx.inject(['database'], async (ctx) => {
+      ctx.model.extend('image_selector_schedule', {
+        id: 'unsigned',
+        platform: 'string',
+        selfId: 'string',
+        channelId: 'string',
+        guildId: 'string',
+        cron: 'string',
+        keyword: 'string',
+        count: 'unsigned',
+        creator: 'string',
+      }, {
+        autoInc: true,
+      })
+
+      this.database = ctx.database
+      ctx.on('dispose', () => {
+        this.database = null
+        this.clear()
+      })
+
+      try {
+        for (const schedule of await this.database.get('image_selector_schedule', {})) {
+          this.arm(schedule)
+        }
+      } catch (error) {
+        this.ctx.logger.warn('读取定时发图任务失败:', error)
+      }
+    })
+
+    ctx.on('dispose', () => this.clear())
+  }
+
+  private clear() {
+    for (const dispose of this.timers.values()) dispose()
+    this.timers.clear()
+  }
+
+  // 为任务设置下一次触发的定时器
+  private arm(schedule: Schedule) {
+    this.timers.get(schedule.id)?.()
+    let cron: CronExpression
+    try {
+      cron = new CronExpression(schedule.cron)
+    } catch (error) {
+      this.ctx.logger.warn(`定时发图 #${schedule.id} 的 cron 表达式无效:`, error.message)
+      return
+    }
+    const next = cron.next(new Date())
+    if (!next) return
+
+    const delay = Math.min(next.getTime() - Date.now(), MAX_DELAY)
+    this.timers.set(schedule.id, this.ctx.setTimeout(async () => {
+      this.timers.delete(schedule.id)
+      // 等待时间被截断时只重新计时，到达触发时间后才执行
+      if (Date.now() >= next.getTime()) {
+        try {
+          await this.execute(schedule)
+        } catch (error) {
+          this.ctx.logger.warn(`定时发图 #${schedule.id} 执行失败:`, error)
+        }
+      }
+      // 执行期间任务可能已被删除
+      if ((await this.list()).some(item => item.id === schedule.id)) this.arm(schedule)
+    }, delay))
+  }
+
+  next(schedule: Schedule) {
+    return new CronExpression(schedule.cron).next(new Date())
+  }
+
+  async list() {
+    if (!this.database) return this.memory
+    return this.database.get('image_selector_schedule', {})
+  }
+
+  async add(data: Omit<Schedule, 'id'>) {
+    let schedule: Schedule
+    if (this.database) {
+      schedule = await this.database.create('image_selector_schedule', data)
+    } else {
+      schedule = { ...data, id: Math.max(0, ...this.memory.map(item => item.id)) + 1 }
+      this.memory.push(schedule)
+    }
+    this.arm(schedule)
+    return schedule
+  }
+
+  async remove(id: number) {
+    this.timers.get(id)?.()
+    this.timers.delete(id)
+    if (!this.database) {
+      const index = this.memory.findIndex(item => item.id === id)
+      if (index < 0) return false
+      this.memory.splice(index, 1)
+      return true
+    }
+    const { removed } = await this.database.remove('image_selector_schedule', { id })
+    return removed > 0
+  }
+}
@@ -0,0 +1,99 @@
+import { Context, Time } from 'koishi'
+
+import { Config } from '.'
+
+declare module 'koishi' {
+  interface Tables {
+    image_selector_message: SentRecord
+  }
+}
+
+export interface SentRecord {
+  // 频道标识与消息 ID，如 "onebot:123456:7890"
+  id: string
+  // 消息对应的文件路径
+  path: string
+  time: Date
+}
+
+// 数据库不可用时内存中最多保留的记录数
+const MEMORY_LIMIT = 1000
+
+// 记录机器人发出的每条消息对应的文件，用于引用消息管理图库
+export class SentMessages {
+  private database: Context['database']
+  private memory = new Map<string, SentRecord>()
+  private lastPrune = 0
+
+  constructor(private ctx: Context, private config: Config) {
+    ctx.inject(['database'], (ctx) => {
+      ctx.model.extend('image_selector_message', {
+        id: 'string',
+        path: 'string',
+        time: 'timestamp',
+      }, {
+        primary: 'id',
+      })
+
+      this.database = ctx.database
+      ctx.on('dispose', () => {
+        this.database = null
+      })
+    })
+  }
+
+  async record(channel: string, messageIds: string[], path: string) {
+    const records = messageIds.map(id => ({ id: `${channel}:${id}`, path, time: new Date() }))
+    if (!records.length) return
+
+    if (!this.database) {
+      for (const record of records) this.memory.set(record.id, record)
+      for (const id of this.memory.keys()) {
+        if (this.memory.size <= MEMORY_LIMIT) break
+        this.memory.delete(id)
+      }
+      return
+    }
+
+    try {
+      await this.database.upsert('image_selector_message', records)
+      // 每小时最多清理一次过期记录
+      if (Date.now() - this.lastPrune > Time.hour) {
+        this.lastPrune = Date.now()
+        const expired = new Date(Date.now() - this.config.sentHistoryDays * Time.day)
+        await this.database.remove('image_selector_message', { time: { $lt: expired } })
+      }
+    } catch (error) {
+      this.ctx.logger.warn('保存发送记录失败:', error)
+    }
+  }
+
+  async get(channel: string, messageId: string) {
+    const id = `${channel}:${messageId}`
+    if (!this.database) return this.memory.get(id)?.path
+    const [record] = await this.database.get('image_selector_message', { id })
+    return record?.path
+  }
+
+  // 文件移动后更新所有指向它的记录
+  async rename(source: string, target: string) {
+    if (!this.database) {
+      for (const record of this.memory.values()) {
+        if (record.path === source) record.path = target
+      }
+      return
+    }
+    await this.database.set('image_selector_message', { path: source }, { path: target })
+  }
+
+  // 文件删除后移除所有指向它的记录
+  async forget(path: string) {
+    if (!this.database) {
+      for (const [id, record] of this.memory) {
+        if (record.path === path) this.memory.delete(id)
+      }
+      return
+    }
+    await this.database.remove('image_selector_message', { path })
+  }
+}
@@ -0,0 +1,114 @@
+import { Context } from 'koishi'
+
+import { Config } from '.'
+import { GalleryFolder } from './gallery'
+
+declare module 'koishi' {
+  interface Tables {
+    image_selector_bag: BagRecord
+  }
+}
+
+export interface BagRecord {
+  // 频道标识，如 "onebot:123456"
+  channel: string
+  // 文件夹目录名
+  folder: string
+  // 本轮已发送过的文件
+  sent: string[]
+}
+
+// 从列表中随机抽取 count 个不重复的元素
+export function sample<T>(list: T[], count: number) {
+  const pool = list.slice()
+  const result: T[] = []
+  while (result.length < count && pool.length) {
+    const index = Math.floor(Math.random() * pool.length)
+    result.push(pool[index])
+    pool[index] = pool[pool.length - 1]
+    pool.pop()
+  }
+  return result
+}
+
+// 每个频道对每个文件夹维护一个“洗牌袋”：发完整个文件夹之前不会重复
+export class ShuffleBag {
+  private database: Context['database']
+  private cache = new Map<string, Set<string>>()
+
+  constructor(private ctx: Context, private config: Config) {
+    ctx.inject(['database'], (ctx) => {
+      ctx.model.extend('image_selector_bag', {
+        channel: 'string',
+        folder: 'string',
+        sent: 'json',
+      }, {
+        primary: ['channel', 'folder'],
+      })
+
+      this.database = ctx.database
+      ctx.on('dispose', () => {
+        this.database = null
+      })
+    })
+  }
+
+  private async load(channel: string, folder: string) {
+    const key = `${channel}\n${folder}`
+    if (this.cache.has(key)) return this.cache.get(key)
+
+    let sent = new Set<string>()
+    if (this.database) {
+      try {
+        const [record] = await this.database.get('image_selector_bag', { channel, folder })
+        if (record) sent = new Set(record.sent)
+      } catch (error) {
+        this.ctx.logger.warn('读取发图记录失败:', error)
+      }
+    }
+    this.cache.set(key, sent)
+    return sent
+  }
+
+  private async save(channel: string, folder: string, sent: Set<string>) {
+    if (!this.database) return
+    try {
+      await this.database.upsert('image_selector_bag', [{ channel, folder, sent: [...sent] }])
+    } catch (error) {
+      this.ctx.logger.warn('保存发图记录失败:', error)
+    }
+  }
+
+  // 从文件夹中抽取 count 个文件，洗牌模式下同一次请求内不重复；files 为按标签筛选后的候选文件
+  async pick(channel: string, folder: GalleryFolder, count: number, files = folder.files) {
+    if (this.config.randomMode === 'random') {
+      return Array.from({ length: count }, () => {
+        return files[Math.floor(Math.random() * files.length)]
+      })
+    }
+
+    count = Math.min(count, files.length)
+
+    const sent = await this.load(channel, folder.name)
+
+    // 文件可能已被删除，只保留仍在文件夹中的记录
+    const existing = new Set(folder.files)
+    for (const file of sent) {
+      if (!existing.has(file)) sent.delete(file)
+    }
+
+    let available = files.filter(file => !sent.has(file))
+    const result = sample(available, count)
+
+    // 候选文件已全部发过时开启新一轮，但不与本次已抽到的文件重复
+    if (result.length < count) {
+      for (const file of files) sent.delete(file)
+      available = files.filter(file => !result.includes(file))
+      result.push(...sample(available, count - result.length))
+    }
+
+    for (const file of result) sent.add(file)
+    await this.save(channel, folder.name, sent)
+    return result
+  }
+}
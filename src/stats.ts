@@ -0,0 +1,121 @@
+import { Context, Session } from 'koishi'
+
+import { Config } from '.'
+
+declare module 'koishi' {
+  interface Tables {
+    image_selector_stat: StatRecord
+  }
+}
+
+export interface StatRecord {
+  id: number
+  type: 'send' | 'save'
+  folder: string
+  // 发图时为空，存图时为保存的文件名
+  file: string
+  userId: string
+  userName: string
+  // 频道标识，如 "onebot:123456"
+  channel: string
+  count: number
+  time: Date
+}
+
+// 数据库不可用时内存中最多保留的记录数，超出时丢弃最早的记录
+const MEMORY_LIMIT = 10000
+
+// 使用统计，数据库可用时持久化，否则仅保存在内存中
+export class Statistics {
+  private database: Context['database']
+  private memory: StatRecord[] = []
+  private nextId = 1
+
+  constructor(private ctx: Context, private config: Config) {
+    ctx.inject(['database'], (ctx) => {
+      ctx.model.extend('image_selector_stat', {
+        id: 'unsigned',
+        type: 'string',
+        folder: 'string',
+        file: 'string',
+        userId: 'string',
+        userName: 'string',
+        channel: 'string',
+        count: 'unsigned',
+        time: 'timestamp',
+      }, {
+        autoInc: true,
+      })
+
+      this.database = ctx.database
+      ctx.on('dispose', () => {
+        this.database = null
+      })
+    })
+  }
+
+  private async add(records: Omit<StatRecord, 'id'>[]) {
+    if (!this.config.statsEnabled || !records.length) return
+    if (!this.database) {
+      this.memory.push(...records.map(record => ({ ...record, id: this.nextId++ })))
+      if (this.memory.length > MEMORY_LIMIT) this.memory.splice(0, this.memory.length - MEMORY_LIMIT)
+      return
+    }
+    try {
+      for (const record of records) {
+        await this.database.create('image_selector_stat', record)
+      }
+    } catch (error) {
+      this.ctx.logger.warn('保存统计记录失败:', error)
+    }
+  }
+
+  recordSend(session: Session, folder: string, count: number) {
+    return this.add([{
+      type: 'send',
+      folder,
+      file: '',
+      userId: `${session.platform}:${session.userId}`,
+      userName: session.username || session.userId,
+      channel: session.cid,
+      count,
+      time: new Date(),
+    }])
+  }
+
+  recordSave(session: Session, folder: string, files: string[]) {
+    return this.add(files.map(file => ({
+      type: 'save' as const,
+      folder,
+      file,
+      userId: `${session.platform}:${session.userId}`,
+      userName: session.username || session.userId,
+      channel: session.cid,
+      count: 1,
+      time: new Date(),
+    })))
+  }
+
+  // 查询指定时间之后的记录，按时间倒序
+  async query(type: StatRecord['type'], since: Date) {
+    let records: StatRecord[]
+    if (this.database) {
+      records = await this.database.get('image_selector_stat', { type, time: { $gte: since } })
+    } else {
+      records = this.memory.filter(record => record.type === type && record.time >= since)
+    }
+    return records.sort((a, b) => +b.time - +a.time)
+  }
+
+  // 按指定字段汇总数量，返回降序排列的 [键, 数量, 示例记录]
+  static rank(records: StatRecord[], key: 'folder' | 'userId' | 'channel') {
+    const totals = new Map<string, [number, StatRecord]>()
+    for (const record of records) {
+      const [count] = totals.get(record[key]) || [0]
+      totals.set(record[key], [count + record.count, record])
+    }
+    return [...totals]
+      .map(([name, [count, sample]]) => [name, count, sample] as const)
+      .sort((a, b) => b[1] - a[1])
+  }
+}
@@ -0,0 +1,353 @@
+import { Context, Dict, h, HTTP } from 'koishi'
+
+import { createHash, createHmac } from 'node:crypto'
+import { promises as fs, watch } from 'node:fs'
+import { dirname } from 'node:path'
+
+import { Config } from '.'
+import { MediaFormat, mediaByExtension } from './media'
+
+export interface StorageEntry {
+  name: string
+  directory: boolean
+}
+
+export interface StorageStat {
+  size: number
+  mtimeMs: number
+}
+
+// 存储后端：路径在本地存储中是文件系统路径，在对象存储中是对象键
+export interface Storage {
+  list(dir: string): Promise<StorageEntry[]>
+  read(path: string): Promise<Buffer>
+  // 读取文件开头的指定字节数，用于识别格式
+  readHead(path: string, length: number): Promise<Buffer>
+  write(path: string, data: Buffer): Promise<void>
+  stat(path: string): Promise<StorageStat>
+  exists(path: string): Promise<boolean>
+  remove(path: string): Promise<void>
+  // 删除空目录
+  removeDir(path: string): Promise<void>
+  mkdir(path: string): Promise<void>
+  move(source: string, target: string): Promise<void>
+  // 生成发送用的消息元素
+  element(path: string, format: MediaFormat): Promise<h>
+  // 监听目录变化，回调参数为变化的文件相对于监听目录的路径（平台未提供时为空），不支持时返回空
+  watch?(path: string, listener: (filename?: string) => void): () => void
+}
+
+// 不存在的路径统一抛出 ENOENT，与本地文件系统一致
+function notFound(path: string) {
+  return Object.assign(new Error(`ENOENT: no such file or directory, '${path}'`), { code: 'ENOENT' })
+}
+
+export class LocalStorage implements Storage {
+  constructor(private ctx: Context) {}
+
+  async list(dir: string) {
+    const entries = await fs.readdir(dir, { withFileTypes: true })
+    return entries
+      .filter(entry => entry.isFile() || entry.isDirectory())
+      .map(entry => ({ name: entry.name, directory: entry.isDirectory() }))
+  }
+
+  read(path: string) {
+    return fs.readFile(path)
+  }
+
+  async readHead(path: string, length: number) {
+    const handle = await fs.open(path, 'r')
+    try {
+      const buffer = Buffer.alloc(length)
+      const { bytesRead } = await handle.read(buffer, 0, length, 0)
+      return buffer.subarray(0, bytesRead)
+    } finally {
+      await handle.close()
+    }
+  }
+
+  async write(path: string, data: Buffer) {
+    await fs.mkdir(dirname(path), { recursive: true })
+    await fs.writeFile(path, data)
+  }
+
+  async stat(path: string) {
+    const { size, mtimeMs } = await fs.stat(path)
+    return { size, mtimeMs }
+  }
+
+  async exists(path: string) {
+    try {
+      await fs.access(path)
+      return true
+    } catch {
+      return false
+    }
+  }
+
+  remove(path: string) {
+    return fs.rm(path, { force: true })
+  }
+
+  removeDir(path: string) {
+    return fs.rmdir(path)
+  }
+
+  async mkdir(path: string) {
+    await fs.mkdir(path, { recursive: true })
+  }
+
+  // 移动文件，跨磁盘时退化为复制后删除
+  async move(source: string, target: string) {
+    await fs.mkdir(dirname(target), { recursive: true })
+    try {
+      await fs.rename(source, target)
+    } catch (error) {
+      if (error?.code !== 'EXDEV') throw error
+      await fs.copyFile(source, target)
+      await fs.rm(source, { force: true })
+    }
+  }
+
+  async element(path: string, format: MediaFormat) {
+    return format.video ? h.video(path) : h.image(path)
+  }
+
+  watch(path: string, listener: (filename?: string) => void) {
+    const onChange = (_: string, filename: string | Buffer) => listener(filename?.toString())
+    let watcher: ReturnType<typeof watch>
+    try {
+      watcher = watch(path, { recursive: true }, onChange)
+    } catch {
+      // 部分平台不支持递归监听，退化为仅监听顶层目录
+      try {
+        watcher = watch(path, onChange)
+      } catch (error) {
+        this.ctx.logger.warn('监听图库目录失败，将仅依赖定时刷新:', error)
+        return
+      }
+    }
+
+    watcher.on('error', (error) => {
+      this.ctx.logger.warn('图库目录监听出错:', error)
+    })
+    return () => watcher.close()
+  }
+}
+
+const sha256 = (data: string | Buffer) => createHash('sha256').update(data).digest('hex')
+const hmac = (key: string | Buffer, data: string) => createHmac('sha256', key).update(data).digest()
+
+// RFC 3986 编码，签名要求比 encodeURIComponent 更严格
+const encode = (text: string) => encodeURIComponent(text).replace(/[!'()*]/g, char => '%' + char.charCodeAt(0).toString(16).toUpperCase())
+
+const decodeXml = (text: string) => text
+  .replace(/&lt;/g, '<')
+  .replace(/&gt;/g, '>')
+  .replace(/&quot;/g, '"')
+  .replace(/&apos;/g, "'")
+  .replace(/&amp;/g, '&')
+
+// S3 兼容的对象存储（AWS S3、MinIO、R2 等），使用 SigV4 签名直接调用 REST 接口
+export class S3Storage implements Storage {
+  constructor(private ctx: Context, private config: Config) {}
+
+  // 统一为以 "/" 分隔、不以 "/" 开头的对象键
+  private key(path: string) {
+    return path.replace(/\\/g, '/').replace(/\/{2,}/g, '/').replace(/^\.?\//, '').replace(/\/$/, '')
+  }
+
+  private url(key: string) {
+    const endpoint = new URL(this.config.s3Endpoint)
+    const path = key.split('/').map(encode).join('/')
+    if (this.config.s3ForcePathStyle) {
+      endpoint.pathname = `/${this.config.s3Bucket}/${path}`
+    } else {
+      endpoint.hostname = `${this.config.s3Bucket}.${endpoint.hostname}`
+      endpoint.pathname = `/${path}`
+    }
+    return endpoint
+  }
+
+  private scope(date: string) {
+    return `${date}/${this.config.s3Region}/s3/aws4_request`
+  }
+
+  private signature(date: string, stringToSign: string) {
+    let key = hmac(`AWS4${this.config.s3SecretAccessKey}`, date)
+    for (const part of [this.config.s3Region, 's3', 'aws4_request']) key = hmac(key, part)
+    return createHmac('sha256', key).update(stringToSign).digest('hex')
+  }
+
+  private canonical(method: string, url: URL, headers: Dict<string>, payloadHash: string) {
+    const query = [...url.searchParams]
+      .map(([key, value]) => [encode(key), encode(value)])
+      .sort(([a], [b]) => a < b ? -1 : a > b ? 1 : 0)
+      .map(([key, value]) => `${key}=${value}`)
+      .join('&')
+    const names = Object.keys(headers).map(name => name.toLowerCase()).sort()
+    const lower = Object.fromEntries(Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value.trim()]))
+    return {
+      signedHeaders: names.join(';'),
+      request: [
+        method,
+        url.pathname,
+        query,
+        names.map(name => `${name}:${lower[name]}\n`).join(''),
+        names.join(';'),
+        payloadHash,
+      ].join('\n'),
+    }
+  }
+
+  private timestamp() {
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '')
+    return { amzDate, date: amzDate.slice(0, 8) }
+  }
+
+  private async request(method: HTTP.Method, key: string, options: { query?: Dict<string>; headers?: Dict<string>; data?: Buffer } = {}) {
+    const url = this.url(key)
+    for (const [name, value] of Object.entries(options.query || {})) url.searchParams.set(name, value)
+
+    const { amzDate, date } = this.timestamp()
+    const payloadHash = sha256(options.data || '')
+    const headers: Dict<string> = {
+      ...options.headers,
+      host: url.host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate,
+    }
+    const { signedHeaders, request } = this.canonical(method, url, headers, payloadHash)
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, this.scope(date), sha256(request)].join('\n')
+    headers.authorization = `AWS4-HMAC-SHA256 Credential=${this.config.s3AccessKeyId}/${this.scope(date)}, `
+      + `SignedHeaders=${signedHeaders}, Signature=${this.signature(date, stringToSign)}`
+    delete headers.host
+
+    const response = await this.ctx.http(url.href, {
+      method,
+      headers,
+      data: options.data,
+      responseType: 'arraybuffer',
+      validateStatus: () => true,
+    })
+    if (response.status === 404) throw notFound(key)
+    if (response.status >= 300) {
+      const body = Buffer.from(response.data).toString('utf8')
+      const code = /<Code>(.*?)<\/Code>/.exec(body)?.[1] || response.statusText
+      throw new Error(`对象存储请求失败 (${response.status}): ${code}`)
+    }
+    return response
+  }
+
+  async list(dir: string) {
+    const prefix = this.key(dir) ? this.key(dir) + '/' : ''
+    const entries: StorageEntry[] = []
+    let token: string
+    do {
+      const query: Dict<string> = { 'list-type': '2', prefix, delimiter: '/' }
+      if (token) query['continuation-token'] = token
+      const response = await this.request('GET', '', { query })
+      const body = Buffer.from(response.data).toString('utf8')
+      for (const [, key] of body.matchAll(/<Contents>[\s\S]*?<Key>(.*?)<\/Key>[\s\S]*?<\/Contents>/g)) {
+        const name = decodeXml(key).slice(prefix.length)
+        if (name) entries.push({ name, directory: false })
+      }
+      for (const [, key] of body.matchAll(/<CommonPrefixes>\s*<Prefix>(.*?)<\/Prefix>/g)) {
+        entries.push({ name: decodeXml(key).slice(prefix.length).replace(/\/$/, ''), directory: true })
+      }
+      token = /<IsTruncated>true<\/IsTruncated>/.test(body)
+        ? decodeXml(/<NextContinuationToken>(.*?)<\/NextContinuationToken>/.exec(body)?.[1] || '')
+        : undefined
+    } while (token)
+    return entries
+  }
+
+  async read(path: string) {
+    const response = await this.request('GET', this.key(path))
+    return Buffer.from(response.data)
+  }
+
+  async readHead(path: string, length: number) {
+    const response = await this.request('GET', this.key(path), { headers: { range: `bytes=0-${length - 1}` } })
+    return Buffer.from(response.data).subarray(0, length)
+  }
+
+  async write(path: string, data: Buffer) {
+    const type = mediaByExtension(path)?.mime || 'application/octet-stream'
+    await this.request('PUT', this.key(path), { data, headers: { 'content-type': type } })
+  }
+
+  async stat(path: string) {
+    const response = await this.request('HEAD', this.key(path))
+    return {
+      size: +response.headers.get('content-length') || 0,
+      mtimeMs: Date.parse(response.headers.get('last-modified')) || 0,
+    }
+  }
+
+  async exists(path: string) {
+    try {
+      await this.stat(path)
+      return true
+    } catch (error) {
+      if (error?.code === 'ENOENT') return false
+      throw error
+    }
+  }
+
+  async remove(path: string) {
+    try {
+      await this.request('DELETE', this.key(path))
+    } catch (error) {
+      if (error?.code !== 'ENOENT') throw error
+    }
+  }
+
+  // 对象存储没有真正的目录，以 "目录/" 形式的空对象标记空目录，列出时不作为文件返回
+  async removeDir(path: string) {
+    try {
+      await this.request('DELETE', this.key(path) + '/')
+    } catch (error) {
+      if (error?.code !== 'ENOENT') throw error
+    }
+  }
+
+  async mkdir(path: string) {
+    await this.request('PUT', this.key(path) + '/', { data: Buffer.alloc(0) })
+  }
+
+  async move(source: string, target: string) {
+    const copySource = `/${this.config.s3Bucket}/${this.key(source).split('/').map(encode).join('/')}`
+    await this.request('PUT', this.key(target), { headers: { 'x-amz-copy-source': copySource } })
+    await this.remove(source)
+  }
+
+  // 生成带签名的临时访问链接
+  presign(path: string) {
+    const url = this.url(this.key(path))
+    const { amzDate, date } = this.timestamp()
+    url.searchParams.set('X-Amz-Algorithm', 'AWS4-HMAC-SHA256')
+    url.searchParams.set('X-Amz-Credential', `${this.config.s3AccessKeyId}/${this.scope(date)}`)
+    url.searchParams.set('X-Amz-Date', amzDate)
+    url.searchParams.set('X-Amz-Expires', String(this.config.s3UrlExpires))
+    url.searchParams.set('X-Amz-SignedHeaders', 'host')
+    const { request } = this.canonical('GET', url, { host: url.host }, 'UNSIGNED-PAYLOAD')
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, this.scope(date), sha256(request)].join('\n')
+    url.searchParams.set('X-Amz-Signature', this.signature(date, stringToSign))
+    return url.href
+  }
+
+  async element(path: string, format: MediaFormat) {
+    if (this.config.s3SendMode === 'url') {
+      const url = this.presign(path)
+      return format.video ? h.video(url) : h.image(url)
+    }
+    const data = await this.read(path)
+    return format.video ? h.video(data, format.mime) : h.image(data, format.mime)
+  }
+}
+
+export function createStorage(ctx: Context, config: Config): Storage {
+  return config.storage === 's3' ? new S3Storage(ctx, config) : new LocalStorage(ctx)
+}
@@ -0,0 +1,57 @@
+import { basename, dirname, extname, join } from 'node:path'
+
+import { Storage } from './storage'
+
+// 替换文件名中的非法字符，并避免 "." 和 ".." 这类特殊路径
+export function sanitizeFilename(name: string) {
+  name = name.replace(/[\u0000-\u001f\u007f-\u009f\/\\:*?"<>|]/g, '_')
+  return /^\.+$/.test(name) ? name.replace(/\./g, '_') : name
+}
+
+// 以“文件夹/文件名”的形式展示文件，便于用户定位
+export function displayPath(path: string) {
+  return `${basename(dirname(path))}/${basename(path)}`
+}
+
+// 目标文件已存在时在文件名后追加序号，避免覆盖
+export async function uniquePath(storage: Storage, folder: string, filename: string) {
+  const ext = extname(filename)
+  const stem = filename.slice(0, filename.length - ext.length)
+  let candidate = join(folder, filename)
+  for (let i = 1; await storage.exists(candidate); i++) {
+    candidate = join(folder, `${stem}-${i}${ext}`)
+  }
+  return candidate
+}
+
+export interface FilenameVariables {
+  userId: string
+  username: string
+  guildId: string
+  channelId: string
+  timestamp: number
+  // 在本批次中的序号，从 1 开始
+  index: number
+  // 含 "." 的扩展名
+  ext: string
+}
+
+// 按文件名模板生成文件名，缺失的变量使用占位值
+export function renderFilename(template: string, variables: FilenameVariables) {
+  const now = new Date(variables.timestamp)
+  const date = now.toISOString().split('T')[0]
+  const time = now.toTimeString().split(' ')[0].replace(/:/g, '-')
+
+  const filename = template
+    .replace(/\$\{userId\}/g, variables.userId || 'unknown')
+    .replace(/\$\{username\}/g, variables.username || 'unknown')
+    .replace(/\$\{timestamp\}/g, variables.timestamp.toString())
+    .replace(/\$\{date\}/g, date)
+    .replace(/\$\{time\}/g, time)
+    .replace(/\$\{index\}/g, variables.index.toString())
+    .replace(/\$\{ext\}/g, variables.ext)
+    .replace(/\$\{guildId\}/g, variables.guildId || 'private')
+    .replace(/\$\{channelId\}/g, variables.channelId || 'unknown')
+
+  return sanitizeFilename(filename)
+}
@@ -0,0 +1,57 @@
+import { expect } from 'chai'
+
+import { readdir, readFile, writeFile } from 'node:fs/promises'
+import { join } from 'node:path'
+
+import { createTestApp, images, TestContext } from './helpers'
+
+describe('alias merge', () => {
+  let test: TestContext
+
+  beforeEach(async () => {
+    test = await createTestApp({
+      fixture: {
+        'gallery/猫图-mt': ['a.png'],
+        'gallery/猫咪-kitty': ['a.png', 'b.png'],
+        'gallery/猫咪-kitty/小猫': ['c.png'],
+      },
+      extra: {
+        'gallery/猫咪-kitty/tags.json': JSON.stringify({ 'a.png': ['橘猫'] }),
+        'gallery/aliases.json': JSON.stringify({ '猫咪-kitty/小猫': { added: ['幼猫'] } }),
+      },
+      config: { aliasAuthority: 0 },
+    })
+  })
+
+  afterEach(() => test.dispose())
+
+  it('moves files, tags and subfolders and removes the source folder', async () => {
+    expect(await test.client.receive('别名.合并 猫咪 猫图')).to.deep.equal(['已将"猫咪-kitty"的 3 个文件合并到"猫图-mt"'])
+    expect(await readdir(join(test.root, 'gallery'))).to.not.include('猫咪-kitty')
+    expect(await test.files('gallery/猫图-mt')).to.have.members(['a.png', 'a-1.png', 'b.png', '小猫'])
+    expect(await test.files('gallery/猫图-mt/小猫')).to.deep.equal(['c.png'])
+
+    // 重名改名后的文件仍保留原标签
+    const tags = JSON.parse(await readFile(join(test.root, 'gallery/猫图-mt/tags.json'), 'utf8'))
+    expect(tags).to.deep.equal({ 'a-1.png': ['橘猫'] })
+    expect(JSON.parse(await readFile(join(test.root, 'gallery/aliases.json'), 'utf8'))).to.deep.equal({
+      '猫图-mt': { added: ['猫咪', 'kitty'] },
+    })
+
+    expect(await test.client.receive('别名 猫咪')).to.deep.equal(['猫图-mt：猫图, mt, 猫咪, kitty'])
+    expect(images(await test.client.receive('猫咪 4'))).to.have.length(4)
+    expect(images(await test.client.receive('发图 猫咪 +橘猫'))).to.have.length(1)
+  })
+
+  it('refuses to merge folders with files it cannot move', async () => {
+    await writeFile(join(test.root, 'gallery/猫咪-kitty/小猫/notes.txt'), 'notes')
+    expect(await test.client.receive('别名.合并 猫咪 猫图'))
+      .to.deep.equal(['源文件夹中有无法合并的文件：小猫/notes.txt，请先手动处理'])
+    expect(await test.files('gallery/猫咪-kitty')).to.have.members(['a.png', 'b.png', '小猫'])
+    expect(await test.files('gallery/猫图-mt')).to.deep.equal(['a.png'])
+  })
+
+  it('refuses to merge a folder into its own subfolder', async () => {
+    expect(await test.client.receive('别名.合并 猫咪 小猫')).to.deep.equal(['不能合并到自己的子文件夹中'])
+  })
+})
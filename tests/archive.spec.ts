@@ -0,0 +1,61 @@
+import { expect } from 'chai'
+
+import { Readable } from 'node:stream'
+import { gzipSync } from 'node:zlib'
+
+import { ArchiveEntry, ArchiveFormat, ArchiveWriter, readArchive } from '../src/archive'
+
+async function pack(entries: ArchiveEntry[], format: ArchiveFormat) {
+  const chunks: Uint8Array[] = []
+  const writer = new ArchiveWriter(format, async (chunk) => {
+    chunks.push(chunk)
+  })
+  for (const { path, data } of entries) await writer.add(path, data)
+  await writer.end()
+  return Buffer.concat(chunks)
+}
+
+// 按固定大小分段读取，模拟从文件流中读取
+async function unpack(data: Buffer, chunkSize = 1000) {
+  const chunks: Buffer[] = []
+  for (let offset = 0; offset < data.length; offset += chunkSize) {
+    chunks.push(data.subarray(offset, offset + chunkSize))
+  }
+  const entries: { path: string; data: string }[] = []
+  const supported = await readArchive(Readable.from(chunks), async (entry) => {
+    entries.push({ path: entry.path, data: entry.data.toString('latin1') })
+  })
+  return supported ? entries : undefined
+}
+
+describe('archive', () => {
+  const entries: ArchiveEntry[] = [
+    { path: '猫图-mt/a.png', data: Buffer.alloc(70000, 1) },
+    { path: `${'长'.repeat(40)}/b.png`, data: Buffer.from('b') },
+    { path: 'aliases.json', data: Buffer.from('{}') },
+  ]
+  const expected = entries.map(({ path, data }) => ({ path, data: data.toString('latin1') }))
+
+  for (const format of ['zip', 'tar'] as const) {
+    it(`round-trips ${format} archives`, async () => {
+      expect(await unpack(await pack(entries, format))).to.deep.equal(expected)
+    })
+  }
+
+  it('reads gzipped tar archives', async () => {
+    expect(await unpack(gzipSync(await pack(entries, 'tar')))).to.deep.equal(expected)
+  })
+
+  it('drops unsafe paths and macOS resource files', async () => {
+    const data = await pack([
+      { path: '../evil.png', data: Buffer.from('x') },
+      { path: '__MACOSX/猫图-mt/._a.png', data: Buffer.from('x') },
+      { path: './猫图-mt//a.png', data: Buffer.from('a') },
+    ], 'tar')
+    expect(await unpack(data)).to.deep.equal([{ path: '猫图-mt/a.png', data: 'a' }])
+  })
+
+  it('rejects unsupported formats', async () => {
+    expect(await unpack(Buffer.from('not an archive'))).to.equal(undefined)
+  })
+})
@@ -0,0 +1,46 @@
+import { expect } from 'chai'
+
+import { Config } from '../src'
+import { createTestApp, png, TestContext } from './helpers'
+
+describe('batch save', () => {
+  let test: TestContext
+
+  const start = async (config: Partial<Config> = {}) => {
+    test = await createTestApp({ fixture: { 'gallery/猫图': [] }, config })
+    for (const id of ['1', '2', '3']) {
+      test.remote[`https://example.com/${id}`] = { data: png(id), mime: 'image/png' }
+    }
+    expect(await test.client.receive('存图 猫图 -b', 1)).to.deep.equal([`请连续发送图片或视频，发送“完成”结束（${config.promptTimeout ?? 30} 秒内无新消息将自动结束）`])
+  }
+
+  // 收集期间的图片消息没有回复，等待存图指令重新开始等待下一条消息
+  const collect = async (content: string) => {
+    test.client.receive(content)
+    await new Promise(resolve => setTimeout(resolve, 50))
+  }
+
+  afterEach(() => test.dispose())
+
+  it('saves every collected file after "完成"', async () => {
+    await start()
+    await collect('<img src="https://example.com/1"/><img src="https://example.com/2"/>')
+    expect(await test.client.receive('这不是图片', 1)).to.deep.equal(['未检测到图片或视频，发送“完成”结束收集'])
+    await collect('<img src="https://example.com/3"/>')
+    expect(await test.client.receive('完成', 1)).to.deep.equal(['已保存 3 个文件到"猫图"文件夹'])
+    expect(await test.files('gallery/猫图')).to.have.length(3)
+  })
+
+  it('saves the collected files when no message arrives in time', async () => {
+    await start({ promptTimeout: 0.5 })
+    // 超时后的结果作为这条消息之后的第一条回复
+    expect(await test.client.receive('<img src="https://example.com/1"/>', 1)).to.deep.equal(['已保存 1 个文件到"猫图"文件夹'])
+    expect(await test.files('gallery/猫图')).to.have.length(1)
+  })
+
+  it('reports an empty batch', async () => {
+    await start()
+    expect(await test.client.receive('done', 1)).to.deep.equal(['未收到有效的图片或视频'])
+    expect(await test.files('gallery/猫图')).to.deep.equal([])
+  })
+})
@@ -0,0 +1,98 @@
+import { expect } from 'chai'
+
+import { ChannelSetting, ChannelSettings } from '../src/channel'
+import { GalleryFolder } from '../src/gallery'
+import { createTestApp, images, TestContext } from './helpers'
+
+describe('ChannelSettings.isVisible', () => {
+  const parent = { name: '角色', aliases: ['角色'] } as GalleryFolder
+  const child = { name: '角色/猫娘-catgirl', aliases: ['猫娘', 'catgirl'], parent } as GalleryFolder
+  const other = { name: '狗图', aliases: ['狗图'] } as GalleryFolder
+  const setting = (allow: string[], deny: string[]): ChannelSetting => ({ channel: 'mock:456', passive: true, allow, deny })
+
+  it('shows every folder by default', () => {
+    for (const folder of [parent, child, other]) {
+      expect(ChannelSettings.isVisible(setting([], []), folder)).to.equal(true)
+    }
+  })
+
+  it('only shows allowed folders and their subfolders', () => {
+    const allow = setting(['角色'], [])
+    expect(ChannelSettings.isVisible(allow, child)).to.equal(true)
+    expect(ChannelSettings.isVisible(allow, other)).to.equal(false)
+  })
+
+  it('hides denied folders by name or alias, even when allowed', () => {
+    expect(ChannelSettings.isVisible(setting([], ['catgirl']), child)).to.equal(false)
+    expect(ChannelSettings.isVisible(setting([], ['catgirl']), parent)).to.equal(true)
+    expect(ChannelSettings.isVisible(setting(['角色'], ['角色/猫娘-catgirl']), child)).to.equal(false)
+  })
+})
+
+describe('channel commands', () => {
+  let test: TestContext
+  let admin: TestContext['client']
+  // 同一群组中的另一个频道，设置互不影响
+  let other: TestContext['client']
+
+  beforeEach(async () => {
+    test = await createTestApp({
+      fixture: {
+        'gallery/猫图-mt': ['a.png'],
+        'gallery/狗图': ['b.png'],
+      },
+    })
+    admin = test.app.mock.client('789', '456')
+    admin.event.member = { roles: ['admin'] }
+    other = test.app.mock.client('123', '999')
+  })
+
+  afterEach(() => test.dispose())
+
+  it('shows the default settings', async () => {
+    expect(await test.client.receive('图库设置')).to.deep.equal(['关键词触发：开启\n允许列表：全部\n禁止列表：无'])
+    expect(images(await test.client.receive('猫图'))).to.have.length(1)
+    expect(images(await test.client.receive('狗图'))).to.have.length(1)
+  })
+
+  it('only lets channel admins change settings', async () => {
+    expect(await test.client.receive('图库设置.禁止 狗图')).to.deep.equal(['权限不足，只有频道管理员可以修改设置'])
+    expect(images(await test.client.receive('狗图'))).to.have.length(1)
+  })
+
+  it('hides denied folders in the current channel only', async () => {
+    expect(await admin.receive('图库设置.禁止 狗图')).to.deep.equal(['当前频道已禁止发送：狗图'])
+    expect(await test.client.receive('狗图')).to.deep.equal([])
+    expect(images(await test.client.receive('发图 狗图'))).to.deep.equal([])
+    expect(images(await test.client.receive('猫图'))).to.have.length(1)
+    const [list] = await test.client.receive('图库列表')
+    expect(list).to.include('猫图')
+    expect(list).not.to.include('狗图')
+    expect(images(await other.receive('狗图'))).to.have.length(1)
+  })
+
+  it('only sends allowed folders', async () => {
+    expect(await admin.receive('图库设置.允许 mt')).to.deep.equal(['当前频道只允许发送：mt'])
+    expect(images(await test.client.receive('猫图'))).to.have.length(1)
+    expect(await test.client.receive('狗图')).to.deep.equal([])
+  })
+
+  it('moves keywords between the lists and resets them', async () => {
+    await admin.receive('图库设置.允许 狗图')
+    await admin.receive('图库设置.禁止 狗图')
+    expect(await test.client.receive('图库设置')).to.deep.equal(['关键词触发：开启\n允许列表：全部\n禁止列表：狗图'])
+    expect(await admin.receive('图库设置.移除 狗图')).to.deep.equal(['已从允许和禁止列表中移除：狗图'])
+    expect(images(await test.client.receive('狗图'))).to.have.length(1)
+
+    await admin.receive('图库设置.禁止 猫图')
+    expect(await admin.receive('图库设置.重置')).to.deep.equal(['已恢复当前频道的默认设置'])
+    expect(images(await test.client.receive('猫图'))).to.have.length(1)
+  })
+
+  it('turns off keyword triggers but keeps the send command', async () => {
+    expect(await admin.receive('图库设置.关键词 关闭')).to.deep.equal(['已关闭当前频道的关键词触发'])
+    expect(await test.client.receive('猫图')).to.deep.equal([])
+    expect(images(await test.client.receive('发图 猫图'))).to.have.length(1)
+    expect(images(await other.receive('猫图'))).to.have.length(1)
+  })
+})
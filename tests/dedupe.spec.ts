@@ -0,0 +1,68 @@
+import { App } from 'koishi'
+import { expect } from 'chai'
+
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+
+import { Config } from '../src'
+import { HashIndex, sha256 } from '../src/dedupe'
+import { LocalStorage } from '../src/storage'
+
+// 记录读取过的文件，用于确认是否重新计算了哈希
+class CountingStorage extends LocalStorage {
+  reads: string[] = []
+
+  read(path: string) {
+    this.reads.push(path)
+    return super.read(path)
+  }
+}
+
+describe('HashIndex', () => {
+  let root: string
+  let app: App
+  let paths: string[]
+  const config = { dedupeThreshold: 0, dedupeHashLimit: 1, hashFile: 'hashes.json' } as Config
+
+  before(async () => {
+    root = await mkdtemp(join(tmpdir(), 'image-selector-'))
+    paths = ['a.png', 'b.png', 'c.png'].map(name => join(root, name))
+    for (const path of paths) await writeFile(path, path)
+    app = new App()
+    await app.start()
+  })
+
+  after(async () => {
+    await app.stop()
+    await rm(root, { recursive: true, force: true, maxRetries: 3 })
+  })
+
+  it('limits the hashes computed while saving', async () => {
+    const storage = new CountingStorage(app)
+    const index = new HashIndex(app, config, storage)
+    expect(await index.findDuplicate({ sha256: sha256(Buffer.from(paths[2])) }, paths)).to.be.undefined
+    expect(storage.reads.filter(path => paths.includes(path))).to.deep.equal([paths[0]])
+  })
+
+  it('persists hashes computed in the background', async () => {
+    const index = new HashIndex(app, config, new LocalStorage(app))
+    await index.index(paths)
+    const cache = JSON.parse(await readFile(join(root, 'hashes.json'), 'utf8'))
+    expect(Object.keys(cache)).to.deep.equal(['a.png', 'b.png', 'c.png'])
+  })
+
+  it('reuses persisted hashes after a restart', async () => {
+    const storage = new CountingStorage(app)
+    const index = new HashIndex(app, config, storage)
+    expect(await index.findDuplicate({ sha256: sha256(Buffer.from(paths[2])) }, paths)).to.deep.equal({ path: paths[2], exact: true })
+    expect(storage.reads).to.deep.equal([join(root, 'hashes.json')])
+  })
+
+  it('drops hashes of removed files', async () => {
+    const index = new HashIndex(app, config, new LocalStorage(app))
+    await index.index(paths.slice(0, 2))
+    const cache = JSON.parse(await readFile(join(root, 'hashes.json'), 'utf8'))
+    expect(Object.keys(cache)).to.deep.equal(['a.png', 'b.png'])
+  })
+})
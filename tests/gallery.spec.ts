@@ -0,0 +1,97 @@
+import { expect } from 'chai'
+
+import { writeFile } from 'node:fs/promises'
+import { join } from 'node:path'
+
+import { matchAlias, parseSendRequest } from '../src/gallery'
+
+import { createTestApp, png, TestContext } from './helpers'
+
+describe('matchAlias', () => {
+  it('matches the whole input', () => {
+    expect(matchAlias('猫图', '猫图')).to.equal('')
+  })
+
+  it('returns the suffix after whitespace', () => {
+    expect(matchAlias('猫图 +gif 3', '猫图')).to.equal('+gif 3')
+    expect(matchAlias('猫图  abc ', '猫图')).to.equal('abc')
+  })
+
+  it('accepts a count directly after the alias', () => {
+    expect(matchAlias('猫图5', '猫图')).to.equal('5')
+    expect(matchAlias('猫图5 +gif', '猫图')).to.equal('5 +gif')
+  })
+
+  it('rejects inputs that merely start with the alias', () => {
+    expect(matchAlias('猫图片', '猫图')).to.be.undefined
+    expect(matchAlias('mtv', 'mt')).to.be.undefined
+    expect(matchAlias('猫图5个', '猫图')).to.be.undefined
+  })
+
+  it('rejects inputs that do not start with the alias', () => {
+    expect(matchAlias('狗图', '猫图')).to.be.undefined
+    expect(matchAlias('猫', '猫图')).to.be.undefined
+    expect(matchAlias('猫图', '')).to.be.undefined
+  })
+})
+
+describe('parseSendRequest', () => {
+  it('defaults to one file without tags', () => {
+    expect(parseSendRequest('', 5)).to.deep.equal({ count: 1, includeTags: [], excludeTags: [] })
+  })
+
+  it('parses count and tags in any order', () => {
+    expect(parseSendRequest('+gif 3 -表情包', 5)).to.deep.equal({ count: 3, includeTags: ['gif'], excludeTags: ['表情包'] })
+  })
+
+  it('caps the count at maxout', () => {
+    expect(parseSendRequest('100', 5).count).to.equal(5)
+  })
+
+  it('treats a zero count as one file', () => {
+    expect(parseSendRequest('0', 5).count).to.equal(1)
+  })
+
+  it('ignores unknown tokens and lone signs', () => {
+    expect(parseSendRequest('abc + - 2x', 5)).to.deep.equal({ count: 1, includeTags: [], excludeTags: [] })
+  })
+})
+
+describe('Gallery.watch', () => {
+  let test: TestContext
+  let refreshes = 0
+  const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+  before(async () => {
+    test = await createTestApp({
+      fixture: { 'gallery/猫图-mt': ['a.png', 'b.png'] },
+      config: { indexWatch: true },
+      setup(app) {
+        app.on('image-selector/refresh', () => {
+          refreshes++
+        })
+      },
+    })
+    // 等待启动时的刷新和后台哈希计算完成
+    await wait(1500)
+  })
+
+  after(() => test.dispose())
+
+  it('ignores hash caches and upload records', async function () {
+    this.timeout(5000)
+    const before = refreshes
+    await writeFile(join(test.root, 'gallery/猫图-mt/hashes.json'), '{}')
+    await writeFile(join(test.root, 'gallery/猫图-mt/metadata.json'), '{}')
+    await wait(1500)
+    expect(refreshes).to.equal(before)
+  })
+
+  it('refreshes when media files change', async function () {
+    this.timeout(5000)
+    const before = refreshes
+    await writeFile(join(test.root, 'gallery/猫图-mt/c.png'), png('c'))
+    await wait(1500)
+    expect(refreshes).to.equal(before + 1)
+  })
+})
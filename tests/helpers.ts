@@ -0,0 +1,81 @@
+import { App, HTTP } from 'koishi'
+import mock from '@koishijs/plugin-mock'
+
+import { mkdir, mkdtemp, readdir, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+
+import * as imageSelector from '../src'
+
+// 1x1 的 PNG，末尾追加不同的字节使每个文件的哈希各不相同
+export const PNG = Buffer.from('iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8BQDwAEhQGAhKmMIQAAAABJRU5ErkJggg==', 'base64')
+export const png = (id: string) => Buffer.concat([PNG, Buffer.from(id)])
+
+export const images = (replies: string[]) => replies.flatMap(reply => reply.match(/<img [^>]*>/g) || [])
+
+export interface TestOptions {
+  // 以相对于临时目录的文件夹路径为键，值为其中的文件名，文件内容为以文件名区分的 PNG
+  fixture: Record<string, string[]>
+  // 其他文件，以相对于临时目录的路径为键，如标签清单
+  extra?: Record<string, string>
+  config?: Partial<imageSelector.Config>
+  // 启动前的额外设置，如注册在插件之后执行的中间件
+  setup?(app: App): void
+}
+
+export interface TestContext {
+  root: string
+  app: App
+  client: ReturnType<App['mock']['client']>
+  // 存图时下载的文件，以链接为键
+  remote: Record<string, { data: Buffer; mime: string }>
+  // 列出文件夹中的媒体文件，忽略清单和缓存
+  files(folder: string): Promise<string[]>
+  dispose(): Promise<void>
+}
+
+// 在临时目录中创建图库，启动加载了插件的 mock 应用
+export async function createTestApp({ fixture, extra, config, setup }: TestOptions): Promise<TestContext> {
+  const root = await mkdtemp(join(tmpdir(), 'image-selector-'))
+  for (const folder of ['gallery', 'temp', ...Object.keys(fixture)]) {
+    await mkdir(join(root, folder), { recursive: true })
+    for (const name of fixture[folder] || []) await writeFile(join(root, folder, name), png(name))
+  }
+  for (const [path, content] of Object.entries(extra || {})) {
+    await writeFile(join(root, path), content)
+  }
+
+  const app = new App()
+  app.plugin(HTTP)
+  app.plugin(mock)
+  app.plugin(imageSelector, {
+    imagePath: join(root, 'gallery'),
+    tempPath: join(root, 'temp'),
+    indexWatch: false,
+    dedupeThreshold: 0,
+    userLimits: [{ userId: 'default', sizeLimit: 1 }],
+    groupLimits: [],
+    ...config,
+  })
+  setup?.(app)
+  await app.start()
+
+  const remote: TestContext['remote'] = {}
+  app.http.file = async (url: string) => {
+    if (!remote[url]) throw new Error(`unexpected request: ${url}`)
+    const { data, mime } = remote[url]
+    return { data: data.buffer.slice(data.byteOffset, data.byteOffset + data.length) as ArrayBuffer, type: mime, mime, filename: url }
+  }
+
+  return {
+    root,
+    app,
+    client: app.mock.client('123', '456'),
+    remote,
+    files: async folder => (await readdir(join(root, folder))).filter(name => !name.endsWith('.json')),
+    async dispose() {
+      await app.stop()
+      await rm(root, { recursive: true, force: true, maxRetries: 3 })
+    },
+  }
+}
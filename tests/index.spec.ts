@@ -0,0 +1,137 @@
+import { expect } from 'chai'
+
+import { createTestApp, images, PNG, png, TestContext } from './helpers'
+
+describe('koishi-plugin-image-selector', () => {
+  let test: TestContext
+  let client: TestContext['client']
+  let remote: TestContext['remote']
+  let files: TestContext['files']
+
+  // 插件之后的中间件收到的消息
+  const passed: string[] = []
+
+  before(async () => {
+    test = await createTestApp({
+      fixture: {
+        'gallery/猫图-mt': ['a.png', 'b.png', 'c.png'],
+        'gallery/猫-cat': ['d.png'],
+        'gallery/狗图': ['e.jpg'],
+      },
+      config: {
+        fuzzyPassive: true,
+        userLimits: [{ userId: 'default', sizeLimit: 0.1 }],
+      },
+      setup(app) {
+        app.middleware((session, next) => {
+          passed.push(session.content)
+          return next()
+        })
+      },
+    })
+    client = test.client
+    remote = test.remote
+    files = test.files
+  })
+
+  after(() => test.dispose())
+
+  describe('send', () => {
+    it('sends an image from the matched folder', async () => {
+      const sent = images(await client.receive('发图 猫图'))
+      expect(sent).to.have.length(1)
+      expect(sent[0]).to.include('猫图-mt')
+    })
+
+    it('sends the requested number of distinct images', async () => {
+      const sent = images(await client.receive('发图 mt 3'))
+      expect(sent).to.have.length(3)
+      expect(new Set(sent).size).to.equal(3)
+    })
+
+    it('triggers on aliases with a trailing count', async () => {
+      expect(images(await client.receive('猫图2'))).to.have.length(2)
+    })
+
+    it('sends one image when asked for zero', async () => {
+      expect(images(await test.client.receive('猫图 0'))).to.have.length(1)
+      expect(images(await test.client.receive('发图 猫图 0'))).to.have.length(1)
+    })
+
+    it('matches pinyin but only suggests homophones', async () => {
+      const sent = images(await client.receive('发图 maotu'))
+      expect(sent).to.have.length(1)
+      expect(sent[0]).to.include('猫图-mt')
+      expect(await client.receive('发图 猫兔')).to.deep.equal(['找不到"猫兔"，你是不是想找：猫图？'])
+    })
+
+    it('prefers the longest matching alias', async () => {
+      const sent = images(await client.receive('猫 1'))
+      expect(sent).to.have.length(1)
+      expect(sent[0]).to.include('猫-cat')
+    })
+
+    it('ignores messages that only start with an alias', async () => {
+      expect(await client.receive('猫图片真好看')).to.deep.equal([])
+      expect(await client.receive('猫咪')).to.deep.equal([])
+    })
+
+    it('passes unmatched multi-line messages to later middlewares', async () => {
+      expect(await client.receive('abc\ndef')).to.deep.equal([])
+      expect(passed).to.include('abc\ndef')
+      expect(await client.receive('发图 abc\ndef')).to.deep.equal([])
+    })
+  })
+
+  describe('list', () => {
+    it('lists all folders', async () => {
+      const [reply] = await client.receive('图库列表')
+      expect(reply).to.include('猫图')
+      expect(reply).to.include('猫')
+      expect(reply).to.include('狗图')
+    })
+  })
+
+  describe('save', () => {
+    it('saves into the matched folder', async () => {
+      remote['https://example.com/1'] = { data: png('1'), mime: 'image/png' }
+      const replies = await client.receive('存图 猫图 <img src="https://example.com/1"/>')
+      expect(replies).to.deep.equal(['已保存 1 个文件到"猫图-mt"文件夹'])
+      expect(await files('gallery/猫图-mt')).to.have.length(4)
+    })
+
+    it('rejects duplicates, invalid and oversized files', async () => {
+      remote['https://example.com/2'] = { data: png('1'), mime: 'image/png' }
+      remote['https://example.com/3'] = { data: Buffer.from('not an image'), mime: 'image/png' }
+      remote['https://example.com/4'] = { data: Buffer.concat([PNG, Buffer.alloc(200 * 1024)]), mime: 'image/png' }
+      const [reply] = await client.receive('存图 猫图 <img src="https://example.com/2"/><img src="https://example.com/3"/><img src="https://example.com/4"/>')
+      expect(reply).to.include('已保存 0 个文件到"猫图-mt"文件夹，跳过 3 个（其中 1 个超出大小限制）')
+      expect(reply).to.include('文件 1 与已有文件')
+      expect(reply).to.include('文件 2 不是支持的图片或视频格式')
+      expect(reply).to.include('文件 3 大小')
+      expect(await files('gallery/猫图-mt')).to.have.length(4)
+    })
+
+    it('saves unmatched keywords into the temp folder', async () => {
+      remote['https://example.com/5'] = { data: png('5'), mime: 'image/jpeg' }
+      const replies = await client.receive('存图 一个全新的分类 <img src="https://example.com/5"/>')
+      expect(replies).to.deep.equal(['找不到"一个全新的分类"文件夹，已保存 1 个文件到临时文件夹'])
+      // 以文件内容决定扩展名
+      const [saved] = await files('temp/一个全新的分类')
+      expect(saved).to.match(/\.png$/)
+    })
+
+    it('saves to the temp folder when the keyword is only similar to an alias', async () => {
+      remote['https://example.com/7'] = { data: png('7'), mime: 'image/png' }
+      const replies = await client.receive('存图 狗狗 <img src="https://example.com/7"/>')
+      expect(replies).to.deep.equal(['找不到"狗狗"文件夹，已保存 1 个文件到临时文件夹\n你是不是想找：狗图？'])
+      expect(await files('temp/狗狗')).to.have.length(1)
+    })
+
+    it('makes saved files available for sending', async () => {
+      remote['https://example.com/6'] = { data: png('6'), mime: 'image/png' }
+      await client.receive('存图 狗图 <img src="https://example.com/6"/>')
+      expect(images(await client.receive('发图 狗图 5'))).to.have.length(2)
+    })
+  })
+})
@@ -0,0 +1,133 @@
+import { Session } from 'koishi'
+import { expect } from 'chai'
+
+import { Config } from '../src'
+import { lookupFolder, RateLimiter, resolveLimit, resolveSizeLimit } from '../src/limits'
+import { GalleryFolder } from '../src/gallery'
+
+describe('resolveLimit', () => {
+  const users = [{ userId: 'default', value: 1 }, { userId: 'vip', value: 2 }]
+  const groups = [{ guildId: 'default', value: 3 }, { guildId: 'g1', value: 4 }]
+
+  it('prefers the user setting', () => {
+    expect(resolveLimit(users, groups, 'vip', 'g1').value).to.equal(2)
+  })
+
+  it('falls back to the group, then the group default', () => {
+    expect(resolveLimit(users, groups, 'someone', 'g1').value).to.equal(4)
+    expect(resolveLimit(users, groups, 'someone', 'g2').value).to.equal(3)
+  })
+
+  it('uses the global default in private chats', () => {
+    expect(resolveLimit(users, groups, 'someone').value).to.equal(1)
+  })
+
+  it('uses the last duplicate entry', () => {
+    expect(resolveLimit([...users, { userId: 'vip', value: 5 }], groups, 'vip').value).to.equal(5)
+  })
+
+  it('returns undefined without any match', () => {
+    expect(resolveLimit([], [], 'someone', 'g1')).to.be.undefined
+  })
+})
+
+describe('resolveSizeLimit', () => {
+  const config = {
+    userLimits: [{ userId: 'default', sizeLimit: 5 }, { userId: 'banned', sizeLimit: 0 }],
+    groupLimits: [{ guildId: 'g1', sizeLimit: 10 }, { guildId: 'g2', sizeLimit: -1 }],
+  } as Config
+
+  it('resolves the size limit in MB', () => {
+    expect(resolveSizeLimit(config, 'someone')).to.equal(5)
+    expect(resolveSizeLimit(config, 'someone', 'g1')).to.equal(10)
+  })
+
+  it('treats zero and invalid values as no permission', () => {
+    expect(resolveSizeLimit(config, 'banned', 'g1')).to.equal(0)
+    expect(resolveSizeLimit(config, 'someone', 'g2')).to.equal(0)
+    expect(resolveSizeLimit({ userLimits: [], groupLimits: [] } as Config, 'someone')).to.equal(0)
+  })
+})
+
+describe('lookupFolder', () => {
+  const folder = { name: '猫图-mt', aliases: ['猫图', 'mt'] } as GalleryFolder
+  const limits = [{ folder: 'default', value: 1 }, { folder: 'mt', value: 2 }]
+
+  it('looks up by folder name or alias', () => {
+    expect(lookupFolder([...limits, { folder: '猫图-mt', value: 3 }], folder).value).to.equal(3)
+    expect(lookupFolder(limits, folder).value).to.equal(2)
+  })
+
+  it('falls back to the default entry', () => {
+    expect(lookupFolder(limits, { name: '狗图', aliases: ['狗图'] } as GalleryFolder).value).to.equal(1)
+  })
+})
+
+describe('RateLimiter', () => {
+  const folder = { name: '猫图-mt', aliases: ['猫图', 'mt'] } as GalleryFolder
+  const session = (userId: string, channelId = 'c1') => ({
+    platform: 'mock',
+    userId,
+    guildId: 'g1',
+    channelId,
+    cid: `mock:${channelId}`,
+  }) as Session
+  const config = {
+    sendUserLimits: [{ userId: 'default', maxCount: 0, period: 60, cooldown: 0 }],
+    sendGroupLimits: [],
+    sendChannelLimits: [{ channelId: 'default', maxCount: 5, period: 60, cooldown: 0 }],
+    sendFolderLimits: [{ folder: 'mt', maxCount: 0, period: 60, cooldown: 10 }],
+  } as Config
+
+  let now: number
+  const dateNow = Date.now
+  beforeEach(() => {
+    now = 1700000000000
+    Date.now = () => now
+  })
+  afterEach(() => {
+    Date.now = dateNow
+  })
+
+  it('limits the count within the window', () => {
+    const limiter = new RateLimiter({ ...config, sendFolderLimits: [] })
+    limiter.record(session('u1'), folder, 4)
+    expect(limiter.check(session('u2'), folder, 3)).to.deep.equal({ count: 1 })
+    limiter.record(session('u2'), folder, 1)
+    expect(limiter.check(session('u1'), folder, 1)).to.deep.equal({ count: 0, retryAfter: 60 })
+    now += 60 * 1000
+    expect(limiter.check(session('u1'), folder, 3)).to.deep.equal({ count: 3 })
+  })
+
+  it('does not report a limit when nothing blocks the request', () => {
+    const limiter = new RateLimiter({ ...config, sendChannelLimits: [], sendFolderLimits: [] })
+    expect(limiter.check(session('u1'), folder, 0)).to.deep.equal({ count: 0 })
+    expect(limiter.check(session('u1'), folder, 3)).to.deep.equal({ count: 3 })
+  })
+
+  it('applies folder cooldowns to everyone in the channel', () => {
+    const limiter = new RateLimiter(config)
+    limiter.record(session('u1'), folder, 1)
+    now += 4000
+    expect(limiter.check(session('u2'), folder, 1)).to.deep.equal({ count: 0, retryAfter: 6 })
+    expect(limiter.check(session('u2', 'c2'), folder, 1)).to.deep.equal({ count: 1 })
+    now += 6000
+    expect(limiter.check(session('u2'), folder, 1)).to.deep.equal({ count: 1 })
+  })
+
+  it('applies channel cooldowns to every folder', () => {
+    const limiter = new RateLimiter({ ...config, sendChannelLimits: [{ channelId: 'c1', maxCount: 0, period: 60, cooldown: 30 }] })
+    limiter.record(session('u1'), folder, 1)
+    const other = { name: '狗图', aliases: ['狗图'] } as GalleryFolder
+    expect(limiter.check(session('u2'), other, 1)).to.deep.equal({ count: 0, retryAfter: 30 })
+  })
+
+  it('drops expired records', () => {
+    const limiter = new RateLimiter(config)
+    for (let i = 0; i < 10; i++) limiter.record(session(`u${i}`, `c${i}`), folder, 1)
+    expect(limiter['history'].size + limiter['cooldowns'].size).to.equal(20)
+    now += 60 * 1000
+    limiter.record(session('u0', 'c0'), folder, 1)
+    expect(limiter['history'].size + limiter['cooldowns'].size).to.equal(2)
+  })
+})
@@ -0,0 +1,67 @@
+import { expect } from 'chai'
+
+import { Config } from '../src'
+import { Gallery, GalleryFolder } from '../src/gallery'
+import { editDistance, Matcher, normalize } from '../src/matcher'
+
+describe('Matcher', () => {
+  const folders: Record<string, GalleryFolder> = {}
+  const aliasMap = new Map<string, GalleryFolder[]>()
+  for (const [name, aliases] of [['猫图-mt', ['猫图', 'mt']], ['狗图', ['狗图']], ['Cat', ['Cat']], ['帽子', ['帽子']]] as const) {
+    folders[name] = { name, path: name, aliases: [...aliases], files: [] } as GalleryFolder
+    for (const alias of aliases) aliasMap.set(alias, [folders[name]])
+  }
+
+  const create = (config: Partial<Config> = {}) => new Matcher({ aliasMap } as Gallery, {
+    fuzzyPinyin: true,
+    fuzzySuggestDistance: 2,
+    ...config,
+  } as Config)
+
+  it('normalizes width and case', () => {
+    expect(normalize('ＣＡＴ ｓ')).to.equal('cats')
+    expect(create().resolve('ＣＡＴ')).to.deep.equal({ alias: 'Cat', suggestions: [] })
+  })
+
+  it('matches full pinyin and initials', () => {
+    const matcher = create()
+    expect(matcher.resolve('MaoTu')).to.deep.equal({ alias: '猫图', suggestions: [] })
+    expect(matcher.resolve('gt')).to.deep.equal({ alias: '狗图', suggestions: [] })
+    expect(matcher.resolve('maozi')).to.deep.equal({ alias: '帽子', suggestions: [] })
+  })
+
+  it('prefers literal matches over pinyin matches', () => {
+    // "mt" 既是别名，也是 "猫图" 的首字母
+    expect(create().resolve('MT')).to.deep.equal({ alias: 'mt', suggestions: [] })
+  })
+
+  it('only suggests homophones written in Chinese', () => {
+    const matcher = create()
+    expect(matcher.resolve('猫兔')).to.deep.equal({ suggestions: ['猫图'] })
+    expect(matcher.resolve('猫兔', undefined, { suggest: false })).to.deep.equal({ suggestions: [] })
+    expect(create({ fuzzySuggestDistance: 0 }).resolve('猫兔')).to.deep.equal({ suggestions: ['猫图'] })
+  })
+
+  it('ignores pinyin when disabled', () => {
+    expect(create({ fuzzyPinyin: false }).resolve('maotu')).to.deep.equal({ suggestions: [] })
+    expect(create().resolve('maotu', undefined, { pinyin: false })).to.deep.equal({ suggestions: [] })
+  })
+
+  it('suggests aliases within the edit distance', () => {
+    const matcher = create()
+    expect(matcher.resolve('狗狗')).to.deep.equal({ suggestions: ['狗图'] })
+    expect(matcher.resolve('cats')).to.deep.equal({ suggestions: ['Cat'] })
+    expect(matcher.resolve('cats', undefined, { suggest: false })).to.deep.equal({ suggestions: [] })
+    expect(create({ fuzzySuggestDistance: 0 }).resolve('cats')).to.deep.equal({ suggestions: [] })
+  })
+
+  it('skips folders rejected by the filter', () => {
+    const matcher = create()
+    expect(matcher.resolve('maotu', folder => folder.name !== '猫图-mt')).to.deep.equal({ suggestions: [] })
+  })
+
+  it('computes edit distances', () => {
+    expect(editDistance('kitten', 'sitting')).to.equal(3)
+    expect(editDistance('', 'abc')).to.equal(3)
+  })
+})
@@ -0,0 +1,41 @@
+import { expect } from 'chai'
+
+import { detectMedia, extractMedia, isMediaFile, mediaByExtension } from '../src/media'
+
+describe('detectMedia', () => {
+  const detect = (...bytes: (number | string)[]) => {
+    const data = Buffer.concat(bytes.map(item => typeof item === 'string' ? Buffer.from(item, 'latin1') : Buffer.from([item])))
+    return detectMedia(Buffer.concat([data, Buffer.alloc(16)]))?.name
+  }
+
+  it('detects images by their headers', () => {
+    expect(detect(0xff, 0xd8, 0xff)).to.equal('jpg')
+    expect(detect(0x89, 'PNG\r\n', 0x1a, '\n')).to.equal('png')
+    expect(detect('GIF89a')).to.equal('gif')
+    expect(detect('RIFF', 0, 0, 0, 0, 'WEBP')).to.equal('webp')
+  })
+
+  it('detects videos by their headers', () => {
+    expect(detect(0, 0, 0, 0x18, 'ftypmp42')).to.equal('mp4')
+  })
+
+  it('ignores the file name and rejects unknown content', () => {
+    expect(detect('not an image')).to.be.undefined
+    expect(detectMedia(Buffer.alloc(0))).to.be.undefined
+  })
+})
+
+describe('mediaByExtension', () => {
+  it('maps extensions case-insensitively', () => {
+    expect(mediaByExtension('a.JPEG').name).to.equal('jpg')
+    expect(mediaByExtension('dir/b.mp4').video).to.be.true
+    expect(isMediaFile('c.txt')).to.be.false
+  })
+})
+
+describe('extractMedia', () => {
+  it('extracts media from nested forward messages', () => {
+    const content = '<message forward><message><img src="a"/></message><message>text<video src="b"/></message></message><img src="c"/>'
+    expect(extractMedia(content).map(element => element.attrs.src)).to.deep.equal(['a', 'b', 'c'])
+  })
+})
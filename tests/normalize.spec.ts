@@ -0,0 +1,122 @@
+import { App } from 'koishi'
+import { expect } from 'chai'
+import { Jimp } from 'jimp'
+
+import { Config } from '../src'
+import { GalleryFolder } from '../src/gallery'
+import { detectMedia, MEDIA_FORMATS } from '../src/media'
+import { ImageNormalizer, isAnimated } from '../src/normalize'
+import { createTestApp, PNG } from './helpers'
+
+const format = (name: string) => MEDIA_FORMATS.find(item => item.name === name)
+const bytes = (...parts: (number | string)[]) => Buffer.concat(parts.map(part => typeof part === 'string' ? Buffer.from(part, 'latin1') : Buffer.from([part])))
+
+// 只包含判断动图所需的字节，不是完整的文件
+const GCE = bytes(0x21, 0xf9, 0x04, 0, 0, 0, 0, 0)
+const gif = (frames: number) => Buffer.concat([Buffer.from('GIF89a'), ...Array(frames).fill(GCE), bytes(0x3b)])
+const webp = (flags: number) => bytes('RIFF', 0, 0, 0, 0, 'WEBP', 'VP8X', 10, 0, 0, 0, flags, 0, 0, 0)
+const apng = bytes(0x89, 'PNG\r\n', 0x1a, '\n', 0, 0, 0, 8, 'acTL', 0, 0, 0, 2, 0, 0, 0, 0, 0, 0, 0, 1, 'IDAT')
+
+describe('isAnimated', () => {
+  it('counts GIF frames', () => {
+    expect(isAnimated(gif(1), format('gif'))).to.equal(false)
+    expect(isAnimated(gif(2), format('gif'))).to.equal(true)
+  })
+
+  it('reads the animation flag of extended WebP', () => {
+    expect(isAnimated(webp(0x02), format('webp'))).to.equal(true)
+    expect(isAnimated(webp(0x10), format('webp'))).to.equal(false)
+    expect(isAnimated(bytes('RIFF', 0, 0, 0, 0, 'WEBP', 'VP8 ', 0, 0, 0, 0, 0x02), format('webp'))).to.equal(false)
+  })
+
+  it('detects APNG by the acTL chunk', () => {
+    expect(isAnimated(apng, format('png'))).to.equal(true)
+    expect(isAnimated(PNG, format('png'))).to.equal(false)
+  })
+})
+
+describe('ImageNormalizer', () => {
+  let app: App
+  let image: Buffer
+
+  const create = (config: Partial<Config> = {}) => new ImageNormalizer(app, {
+    normalizeEnabled: true,
+    normalizeMaxSize: 4,
+    normalizeFormat: 'original',
+    normalizeQuality: 85,
+    normalizeSkipFolders: [],
+    ...config,
+  } as Config)
+
+  before(async () => {
+    app = new App()
+    await app.start()
+    image = await new Jimp({ width: 8, height: 2, color: 0xff0000ff }).getBuffer('image/png')
+  })
+
+  after(() => app.stop())
+
+  it('shrinks images to the longest side limit', async () => {
+    const { data, format: result } = await create().process(image, format('png'))
+    expect(result.name).to.equal('png')
+    const { width, height } = (await Jimp.fromBuffer(data)).bitmap
+    expect([width, height]).to.deep.equal([4, 1])
+  })
+
+  it('keeps the size when the limit is 0', async () => {
+    const { data } = await create({ normalizeMaxSize: 0 }).process(image, format('png'))
+    expect((await Jimp.fromBuffer(data)).bitmap.width).to.equal(8)
+  })
+
+  for (const name of ['jpg', 'webp'] as const) {
+    it(`re-encodes images as ${name}`, async () => {
+      const { data, format: result } = await create({ normalizeFormat: name }).process(image, format('png'))
+      expect(result.name).to.equal(name)
+      expect(detectMedia(data).name).to.equal(name)
+    })
+  }
+
+  it('keeps animations and videos untouched', async () => {
+    const normalizer = create({ normalizeFormat: 'jpg' })
+    for (const [data, name] of [[gif(2), 'gif'], [webp(0x02), 'webp'], [apng, 'png'], [Buffer.from('video'), 'mp4']] as const) {
+      const result = await normalizer.process(data, format(name))
+      expect(result.data).to.equal(data)
+      expect(result.format.name).to.equal(name)
+    }
+  })
+
+  it('skips configured folders and their subfolders', () => {
+    const parent = { name: '表情包', aliases: ['bqb'] } as GalleryFolder
+    const child = { name: '表情包/猫', aliases: ['猫'], parent } as GalleryFolder
+    const other = { name: '猫图', aliases: [] } as GalleryFolder
+    const normalizer = create({ normalizeSkipFolders: ['bqb'] })
+    expect(normalizer.enabled(child)).to.equal(false)
+    expect(normalizer.enabled(other)).to.equal(true)
+    expect(normalizer.enabled()).to.equal(true)
+    expect(create({ normalizeEnabled: false }).enabled(other)).to.equal(false)
+  })
+
+  it('checks the upload size limit after processing', async () => {
+    const test = await createTestApp({
+      fixture: { 'gallery/猫图': [] },
+      config: { normalizeEnabled: true, normalizeFormat: 'jpg', normalizeMaxSize: 16, userLimits: [{ userId: 'default', sizeLimit: 0.1 }] },
+    })
+    try {
+      // 难以压缩的噪点图，原图超出大小限制，缩小后不超出
+      const noise = new Jimp({ width: 200, height: 200 })
+      let seed = 1
+      for (let i = 0; i < noise.bitmap.data.length; i++) {
+        seed = seed * 1103515245 + 12345 & 0x7fffffff
+        noise.bitmap.data[i] = seed >> 16
+      }
+      const data = await noise.getBuffer('image/png')
+      expect(data.length).to.be.above(0.1 * 1024 * 1024)
+      test.remote['https://example.com/1'] = { data, mime: 'image/png' }
+      expect(await test.client.receive('存图 猫图 <img src="https://example.com/1"/>')).to.deep.equal(['已保存 1 个文件到"猫图"文件夹'])
+      const [saved] = await test.files('gallery/猫图')
+      expect(saved).to.match(/\.jpg$/)
+    } finally {
+      await test.dispose()
+    }
+  })
+})
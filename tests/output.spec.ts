@@ -0,0 +1,76 @@
+import { h } from 'koishi'
+import { expect } from 'chai'
+
+import { Config } from '../src'
+import { createTestApp, TestContext } from './helpers'
+
+describe('outputMode', () => {
+  let test: TestContext
+  // 每次发送的完整消息，mock 适配器会把合并转发拆成多条回复，因此在发送前记录
+  let sent: h[][]
+
+  const start = async (config: Partial<Config>) => {
+    sent = []
+    test = await createTestApp({
+      fixture: { 'gallery/猫图': ['a.png', 'b.png', 'c.png'] },
+      extra: { 'gallery/猫图/v.mp4': '\0\0\0\x18ftypmp42' + '\0'.repeat(32) },
+      config,
+      setup(app) {
+        app.on('before-send', (session) => {
+          sent.push(session.elements)
+        })
+      },
+    })
+  }
+
+  // 每条消息中的元素类型，如 ["img", "img"]
+  const types = (elements: h[]) => elements.map(element => element.type)
+
+  afterEach(() => test.dispose())
+
+  it('sends files one by one in sequential mode', async () => {
+    await start({ outputMode: 'sequential' })
+    await test.client.receive('猫图 4')
+    expect(sent).to.have.length(4)
+    expect(sent.map(types).flat().sort()).to.deep.equal(['img', 'img', 'img', 'video'])
+  })
+
+  it('combines images into one message and sends videos separately', async () => {
+    await start({ outputMode: 'combined' })
+    await test.client.receive('猫图 4')
+    expect(sent.map(types)).to.deep.equal([['img', 'img', 'img'], ['video']])
+  })
+
+  it('wraps every file in a forwarded message', async () => {
+    await start({ outputMode: 'forward', forwardPlatforms: ['mock'] })
+    await test.client.receive('猫图 4')
+    expect(sent).to.have.length(1)
+    const [forward] = sent[0]
+    expect(forward.type).to.equal('message')
+    expect(forward.attrs.forward).to.equal(true)
+    expect(forward.children.map(child => child.type)).to.deep.equal(['message', 'message', 'message', 'message'])
+    expect(forward.children.flatMap(child => types(child.children)).sort()).to.deep.equal(['img', 'img', 'img', 'video'])
+  })
+
+  it('falls back to sequential mode on platforms without forwarding', async () => {
+    await start({ outputMode: 'forward', forwardPlatforms: ['onebot'] })
+    await test.client.receive('猫图 2')
+    expect(sent).to.have.length(2)
+    expect(sent.every(elements => elements.length === 1)).to.equal(true)
+  })
+
+  it('sends a single file as is in every mode', async () => {
+    await start({ outputMode: 'forward', forwardPlatforms: ['mock'] })
+    await test.client.receive('猫图 1')
+    expect(sent).to.have.length(1)
+    expect(['img', 'video']).to.include(sent[0][0].type)
+  })
+
+  it('adds captions before each file', async () => {
+    await start({ outputMode: 'combined', outputCaption: true })
+    await test.client.receive('发图 猫图 3')
+    const captions = sent.flat().filter(element => element.type === 'text').map(element => element.attrs.content)
+    expect(captions).to.have.length(3)
+    for (const caption of captions) expect(caption).to.match(/^猫图 [1-4]\/4\n$/)
+  })
+})
@@ -0,0 +1,103 @@
+import { App } from 'koishi'
+import { expect } from 'chai'
+import * as sinon from 'sinon'
+
+import { mkdtemp, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+
+import { Config } from '../src'
+import { FileMetadata, MetadataStore } from '../src/metadata'
+import { QuotaManager, QuotaStatus } from '../src/quota'
+import { LocalStorage } from '../src/storage'
+
+describe('QuotaManager', () => {
+  const MB = 1024 * 1024
+  const statuses: QuotaStatus[] = [
+    { name: '个人额度', limit: { maxFiles: 10, maxSize: 0 }, usage: { files: 8, bytes: 0 } },
+    { name: '群组额度', limit: { maxFiles: 0, maxSize: 5 }, usage: { files: 100, bytes: 4 * MB } },
+  ]
+
+  it('accepts batches within every quota', () => {
+    expect(QuotaManager.exceeded(statuses, 2, MB)).to.be.undefined
+  })
+
+  it('returns the first exceeded quota', () => {
+    expect(QuotaManager.exceeded(statuses, 3, 0).name).to.equal('个人额度')
+    expect(QuotaManager.exceeded(statuses, 1, MB + 1).name).to.equal('群组额度')
+  })
+
+  it('formats usage and remaining quota', () => {
+    expect(QuotaManager.format(statuses[0])).to.equal('个人额度：已用 8/10 个文件（剩余 2 个）')
+    expect(QuotaManager.format(statuses[1])).to.equal('群组额度：已用 4.00/5MB（剩余 1.00MB）')
+  })
+})
+
+describe('QuotaManager.status', () => {
+  let app: App
+  let root: string
+  let metadata: MetadataStore
+  let quota: QuotaManager
+  let reads: sinon.SinonSpy
+
+  const config = {
+    metadataFile: 'metadata.json',
+    quotaUserLimits: [{ userId: 'default', maxFiles: 10, maxSize: 0 }],
+    quotaGroupLimits: [],
+    quotaGuildLimits: [{ guildId: 'default', maxFiles: 10, maxSize: 0 }],
+    quotaFolderLimits: [],
+  } as Config
+  const owner = { platform: 'mock', userId: '123', guildId: '456' }
+
+  const record = (userId: string, guildId: string, size: number): FileMetadata => ({
+    uploaderId: `mock:${userId}`,
+    uploaderName: userId,
+    platform: 'mock',
+    guildId,
+    channelId: guildId,
+    time: new Date(0).toISOString(),
+    url: '',
+    size,
+    mime: 'image/png',
+    sha256: '',
+  })
+
+  const usages = async () => (await quota.status(owner)).map(({ usage }) => usage)
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'image-selector-'))
+    app = new App()
+    await app.start()
+    const storage = new LocalStorage(app)
+    metadata = new MetadataStore(app, config, storage)
+    quota = new QuotaManager(app, config, storage, metadata, async () => [join(root, 'a'), join(root, 'b')])
+    await metadata.set(join(root, 'a', '1.png'), record('123', '456', 100))
+    await metadata.set(join(root, 'b', '2.png'), record('789', '456', 200))
+    reads = sinon.spy(metadata, 'read')
+  })
+
+  afterEach(async () => {
+    await app.stop()
+    await rm(root, { recursive: true, force: true, maxRetries: 3 })
+  })
+
+  it('sums usage per uploader and per guild', async () => {
+    expect(await usages()).to.deep.equal([{ files: 1, bytes: 100 }, { files: 2, bytes: 300 }])
+    expect(await quota.status({ ...owner, userId: '000', guildId: '999' })).to.deep.equal([
+      { name: '个人额度', limit: config.quotaUserLimits[0], usage: { files: 0, bytes: 0 } },
+      { name: '群组额度', limit: config.quotaGuildLimits[0], usage: { files: 0, bytes: 0 } },
+    ])
+  })
+
+  it('reads the records once and follows later changes', async () => {
+    await usages()
+    expect(reads.callCount).to.equal(2)
+
+    await metadata.set(join(root, 'a', '3.png'), record('123', '', 50))
+    await metadata.move(join(root, 'a', '1.png'), join(root, 'b', '1.png'))
+    await metadata.remove(join(root, 'b', '2.png'))
+    reads.resetHistory()
+    expect(await usages()).to.deep.equal([{ files: 2, bytes: 150 }, { files: 1, bytes: 100 }])
+    expect(reads.callCount).to.equal(0)
+  })
+})
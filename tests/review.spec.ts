@@ -0,0 +1,37 @@
+import { expect } from 'chai'
+
+import { readdir } from 'node:fs/promises'
+import { join } from 'node:path'
+
+import { createTestApp, png, TestContext } from './helpers'
+
+describe('review', () => {
+  let test: TestContext
+
+  before(async () => {
+    test = await createTestApp({
+      fixture: { 'gallery/角色/猫娘-catgirl': ['a.png'] },
+      // 所有用户的存图都需要审核
+      config: { reviewTrustAuthority: 5, reviewAuthority: 0 },
+    })
+    test.remote['https://example.com/b'] = { data: png('b'), mime: 'image/png' }
+  })
+
+  after(() => test.dispose())
+
+  it('queues saves into nested folders for review', async () => {
+    expect(await test.client.receive('存图 猫娘 <img src="https://example.com/b"/>'))
+      .to.deep.equal(['已提交 1 个文件到"角色/猫娘-catgirl"文件夹，等待管理员审核'])
+    expect(await readdir(join(test.root, 'temp'))).to.deep.equal(['猫娘-catgirl'])
+
+    const [reply] = await test.client.receive('审核')
+    expect(reply).to.include('待审核文件共 1 个')
+    expect(reply).to.include('1. 猫娘-catgirl/')
+  })
+
+  it('approves into the original nested folder', async () => {
+    expect(await test.client.receive('审核.通过 1')).to.have.length(1)
+    const files = await readdir(join(test.root, 'gallery/角色/猫娘-catgirl'))
+    expect(files.filter(name => name.endsWith('.png'))).to.have.length(2)
+  })
+})
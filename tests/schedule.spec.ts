@@ -0,0 +1,140 @@
+import { App, Logger, Time } from 'koishi'
+import { expect } from 'chai'
+import * as sinon from 'sinon'
+
+import { CronExpression, Schedule, Scheduler } from '../src/schedule'
+
+// 以本地时间构造日期，与 cron 表达式的计算方式一致
+const local = (month: number, day: number, hours: number, minutes: number) => new Date(2024, month - 1, day, hours, minutes)
+
+describe('CronExpression', () => {
+  const next = (cron: string, from: Date) => new CronExpression(cron).next(from)
+
+  it('triggers in the next matching minute, excluding the current one', () => {
+    expect(next('* * * * *', local(1, 1, 8, 0))).to.deep.equal(local(1, 1, 8, 1))
+    expect(next('30 8 * * *', local(1, 1, 8, 30))).to.deep.equal(local(1, 2, 8, 30))
+    expect(next('*/15 * * * *', local(1, 1, 8, 50))).to.deep.equal(local(1, 1, 9, 0))
+  })
+
+  it('supports lists, ranges and weekdays', () => {
+    // 2024-01-05 是周五
+    expect(next('0 9 * * 1-5', local(1, 5, 10, 0))).to.deep.equal(local(1, 8, 9, 0))
+    expect(next('0 12,18 * * *', local(1, 1, 12, 0))).to.deep.equal(local(1, 1, 18, 0))
+    // 周日可以写作 7
+    expect(next('0 0 * * 7', local(1, 1, 0, 0))).to.deep.equal(local(1, 7, 0, 0))
+  })
+
+  it('matches either the day or the weekday when both are restricted', () => {
+    expect(next('0 0 13 * 5', local(1, 1, 0, 0))).to.deep.equal(local(1, 5, 0, 0))
+    expect(next('0 0 13 * 5', local(1, 12, 0, 0))).to.deep.equal(local(1, 13, 0, 0))
+  })
+
+  it('returns undefined for dates that never exist', () => {
+    expect(next('0 0 30 2 *', local(1, 1, 0, 0))).to.be.undefined
+  })
+
+  it('rejects invalid expressions', () => {
+    expect(() => new CronExpression('* * * *')).to.throw('5 个字段')
+    expect(() => new CronExpression('60 * * * *')).to.throw('"分"字段无效')
+    expect(() => new CronExpression('*/0 * * * *')).to.throw('"分"字段无效')
+    expect(() => new CronExpression('0 0 * 13 *')).to.throw('"月"字段无效')
+  })
+})
+
+describe('Scheduler', () => {
+  let app: App
+  let clock: sinon.SinonFakeTimers
+  let scheduler: Scheduler
+  let executed: [number, Date][]
+  let execute: (schedule: Schedule) => Promise<void>
+
+  const data = (cron: string): Omit<Schedule, 'id'> => ({
+    platform: 'mock',
+    selfId: '514',
+    channelId: '456',
+    guildId: '456',
+    cron,
+    keyword: '猫图',
+    count: 1,
+    creator: 'mock:123',
+  })
+
+  beforeEach(async () => {
+    clock = sinon.useFakeTimers({ now: local(1, 1, 8, 2), toFake: ['setTimeout', 'clearTimeout', 'Date'] })
+    app = new App()
+    await app.start()
+    executed = []
+    execute = async (schedule) => {
+      executed.push([schedule.id, new Date()])
+    }
+    scheduler = new Scheduler(app, schedule => execute(schedule))
+  })
+
+  afterEach(async () => {
+    await app.stop()
+    clock.restore()
+  })
+
+  it('fires at each trigger time and re-arms itself', async () => {
+    const { id } = await scheduler.add(data('*/5 * * * *'))
+    await clock.tickAsync(3 * Time.minute - 1)
+    expect(executed).to.deep.equal([])
+    await clock.tickAsync(1)
+    expect(executed).to.deep.equal([[id, local(1, 1, 8, 5)]])
+    await clock.tickAsync(10 * Time.minute)
+    expect(executed.map(([, time]) => time)).to.deep.equal([local(1, 1, 8, 5), local(1, 1, 8, 10), local(1, 1, 8, 15)])
+  })
+
+  it('waits across multiple timers for triggers more than a day away', async () => {
+    await scheduler.add(data('0 9 4 1 *'))
+    await clock.tickAsync(2 * Time.day)
+    expect(executed).to.deep.equal([])
+    await clock.tickAsync(Time.day + Time.hour - 2 * Time.minute)
+    expect(executed.map(([, time]) => time)).to.deep.equal([local(1, 4, 9, 0)])
+  })
+
+  it('stops firing after removal', async () => {
+    const { id } = await scheduler.add(data('* * * * *'))
+    await clock.tickAsync(Time.minute)
+    expect(executed).to.have.length(1)
+    expect(await scheduler.remove(id)).to.equal(true)
+    await clock.tickAsync(10 * Time.minute)
+    expect(executed).to.have.length(1)
+    expect(await scheduler.list()).to.deep.equal([])
+    expect(await scheduler.remove(id)).to.equal(false)
+  })
+
+  it('does not re-arm schedules removed during execution', async () => {
+    execute = async (schedule) => {
+      executed.push([schedule.id, new Date()])
+      await scheduler.remove(schedule.id)
+    }
+    await scheduler.add(data('* * * * *'))
+    await clock.tickAsync(10 * Time.minute)
+    expect(executed).to.have.length(1)
+  })
+
+  it('keeps firing after a failed execution', async () => {
+    // 捕获警告日志而不输出
+    const targets = Logger.targets
+    const warnings: string[] = []
+    Logger.targets = [{ record: ({ type, content }) => type === 'warn' && warnings.push(content) }]
+    execute = async (schedule) => {
+      executed.push([schedule.id, new Date()])
+      throw new Error('发送失败')
+    }
+    await scheduler.add(data('* * * * *'))
+    await clock.tickAsync(3 * Time.minute)
+    Logger.targets = targets
+    expect(executed).to.have.length(3)
+    expect(warnings).to.have.length(3)
+    expect(warnings[0]).to.include('定时发图 #1 执行失败')
+  })
+
+  it('stops all timers when the plugin is disposed', async () => {
+    await scheduler.add(data('* * * * *'))
+    app.scope.dispose()
+    await clock.tickAsync(10 * Time.minute)
+    expect(executed).to.deep.equal([])
+  })
+})
@@ -0,0 +1,111 @@
+import { App } from 'koishi'
+import { expect } from 'chai'
+import * as sinon from 'sinon'
+
+import { Config } from '../src'
+import { GalleryFolder } from '../src/gallery'
+import { sample, ShuffleBag } from '../src/shuffle'
+
+describe('sample', () => {
+  afterEach(() => sinon.restore())
+
+  it('draws distinct elements with the given random source', () => {
+    // 每次取剩余元素中的第一个，被取走的位置由最后一个元素填补
+    sinon.stub(Math, 'random').returns(0)
+    expect(sample(['a', 'b', 'c', 'd'], 3)).to.deep.equal(['a', 'd', 'c'])
+  })
+
+  it('stops when the list runs out', () => {
+    expect(sample(['a', 'b'], 5).sort()).to.deep.equal(['a', 'b'])
+    expect(sample([], 1)).to.deep.equal([])
+  })
+})
+
+describe('ShuffleBag', () => {
+  let app: App
+  let folder: GalleryFolder
+
+  const create = (randomMode: Config['randomMode'] = 'shuffle') => new ShuffleBag(app, { randomMode } as Config)
+
+  // 连续抽取多次，每次 count 个
+  const draw = async (bag: ShuffleBag, times: number, count = 1, channel = 'mock:456') => {
+    const result: string[][] = []
+    for (let i = 0; i < times; i++) result.push(await bag.pick(channel, folder, count))
+    return result
+  }
+
+  beforeEach(async () => {
+    app = new App()
+    await app.start()
+    folder = { name: '猫图', files: ['a', 'b', 'c', 'd'] } as GalleryFolder
+  })
+
+  afterEach(async () => {
+    sinon.restore()
+    await app.stop()
+  })
+
+  it('does not repeat until the folder is exhausted', async () => {
+    const bag = create()
+    const round = (await draw(bag, 4)).flat()
+    expect(round.slice().sort()).to.deep.equal(['a', 'b', 'c', 'd'])
+    // 下一轮重新开始，仍然不重复
+    const next = (await draw(bag, 4)).flat()
+    expect(next.sort()).to.deep.equal(['a', 'b', 'c', 'd'])
+  })
+
+  it('follows the random source', async () => {
+    sinon.stub(Math, 'random').returns(0.99)
+    expect(await draw(create(), 4)).to.deep.equal([['d'], ['c'], ['b'], ['a']])
+  })
+
+  it('starts a new round without repeating within a request', async () => {
+    sinon.stub(Math, 'random').returns(0)
+    const bag = create()
+    expect(await bag.pick('mock:456', folder, 3)).to.deep.equal(['a', 'd', 'c'])
+    // 只剩 b，新一轮不会再抽到 b
+    expect(await bag.pick('mock:456', folder, 3)).to.deep.equal(['b', 'a', 'd'])
+    expect(await bag.pick('mock:456', folder, 2)).to.deep.equal(['c', 'a'])
+  })
+
+  it('keeps a separate bag for each channel', async () => {
+    sinon.stub(Math, 'random').returns(0)
+    const bag = create()
+    expect(await bag.pick('mock:456', folder, 2)).to.deep.equal(['a', 'd'])
+    expect(await bag.pick('mock:789', folder, 2)).to.deep.equal(['a', 'd'])
+  })
+
+  it('includes files added during a round', async () => {
+    sinon.stub(Math, 'random').returns(0)
+    const bag = create()
+    expect(await bag.pick('mock:456', folder, 3)).to.deep.equal(['a', 'd', 'c'])
+    folder.files = [...folder.files, 'e']
+    expect(await bag.pick('mock:456', folder, 2)).to.deep.equal(['b', 'e'])
+  })
+
+  it('forgets removed files and refills from the remaining ones', async () => {
+    const bag = create()
+    const first = (await draw(bag, 2)).flat()
+    folder.files = folder.files.filter(file => file !== first[0])
+    const rest = (await draw(bag, 2)).flat()
+    expect([first[1], ...rest].sort()).to.deep.equal(folder.files)
+    // 删除的文件不再计入本轮，新一轮从剩余的文件开始
+    expect((await draw(bag, 3)).flat().sort()).to.deep.equal(folder.files)
+  })
+
+  it('only resets the filtered candidates when they run out', async () => {
+    sinon.stub(Math, 'random').returns(0)
+    const bag = create()
+    expect(await bag.pick('mock:456', folder, 1, ['c'])).to.deep.equal(['c'])
+    expect(await bag.pick('mock:456', folder, 1, ['a', 'b'])).to.deep.equal(['a'])
+    expect(await bag.pick('mock:456', folder, 1, ['a', 'b'])).to.deep.equal(['b'])
+    expect(await bag.pick('mock:456', folder, 1, ['a', 'b'])).to.deep.equal(['a'])
+    // c 仍记为本轮已发送
+    expect(await bag.pick('mock:456', folder, 2)).to.deep.equal(['b', 'd'])
+  })
+
+  it('allows repeats in random mode', async () => {
+    sinon.stub(Math, 'random').returns(0.5)
+    expect(await create('random').pick('mock:456', folder, 3)).to.deep.equal(['c', 'c', 'c'])
+  })
+})
@@ -0,0 +1,19 @@
+import { App, Session } from 'koishi'
+import { expect } from 'chai'
+
+import { Config } from '../src'
+import { Statistics } from '../src/stats'
+
+describe('Statistics', () => {
+  const session = { platform: 'mock', userId: '123', username: 'Alice', cid: 'mock:456' } as Session
+
+  it('keeps only the latest records in memory without a database', async () => {
+    const stats = new Statistics(new App(), { statsEnabled: true } as Config)
+    for (let i = 0; i < 10005; i++) await stats.recordSend(session, `folder-${i}`, 1)
+    const records = await stats.query('send', new Date(0))
+    expect(records).to.have.length(10000)
+    expect(records.map(record => record.folder)).to.not.include('folder-4')
+    expect(records.map(record => record.folder)).to.include('folder-5')
+    expect(new Set(records.map(record => record.id)).size).to.equal(10000)
+  })
+})
@@ -0,0 +1,210 @@
+import { App, HTTP } from 'koishi'
+import { expect } from 'chai'
+
+import { createHash, createHmac } from 'node:crypto'
+import { createServer, IncomingMessage, Server } from 'node:http'
+import { AddressInfo } from 'node:net'
+
+import { Config } from '../src'
+import { S3Storage } from '../src/storage'
+
+const BUCKET = 'gallery'
+const REGION = 'us-east-1'
+const ACCESS_KEY = 'test-access-key'
+const SECRET_KEY = 'test-secret-key'
+// 每页最多返回的对象数，便于测试分页
+const PAGE_SIZE = 2
+
+const sha256 = (data: string | Buffer) => createHash('sha256').update(data).digest('hex')
+const hmac = (key: string | Buffer, data: string) => createHmac('sha256', key).update(data).digest()
+const encode = (text: string) => encodeURIComponent(text).replace(/[!'()*]/g, char => '%' + char.charCodeAt(0).toString(16).toUpperCase())
+
+// 按 SigV4 规则独立计算签名，与请求中的签名比对
+function verify(req: IncomingMessage, body: Buffer) {
+  const match = /^AWS4-HMAC-SHA256 Credential=([^/]+)\/(\d{8})\/([^/]+)\/s3\/aws4_request, SignedHeaders=([^,]+), Signature=([0-9a-f]+)$/.exec(req.headers.authorization || '')
+  if (!match) return false
+  const [, accessKey, date, region, signedHeaders, signature] = match
+  if (accessKey !== ACCESS_KEY || region !== REGION) return false
+  if (req.headers['x-amz-content-sha256'] !== sha256(body)) return false
+
+  const [path, search = ''] = req.url.split('?')
+  const query = search.split('&').filter(Boolean)
+    .map(pair => pair.split('=').map(part => encode(decodeURIComponent(part))))
+    .sort(([a], [b]) => a < b ? -1 : a > b ? 1 : 0)
+    .map(([key, value = '']) => `${key}=${value}`)
+    .join('&')
+  const names = signedHeaders.split(';')
+  const request = [
+    req.method,
+    path,
+    query,
+    names.map(name => `${name}:${String(req.headers[name]).trim()}\n`).join(''),
+    signedHeaders,
+    sha256(body),
+  ].join('\n')
+  const scope = `${date}/${region}/s3/aws4_request`
+  const stringToSign = ['AWS4-HMAC-SHA256', req.headers['x-amz-date'], scope, sha256(request)].join('\n')
+  let key = hmac(`AWS4${SECRET_KEY}`, date)
+  for (const part of [region, 's3', 'aws4_request']) key = hmac(key, part)
+  return createHmac('sha256', key).update(stringToSign).digest('hex') === signature
+}
+
+describe('S3Storage', () => {
+  let app: App
+  let server: Server
+  let storage: S3Storage
+  let config: Config
+  const objects = new Map<string, { data: Buffer; type: string }>()
+  const requests: string[] = []
+
+  const error = (code: string) => `<?xml version="1.0" encoding="UTF-8"?><Error><Code>${code}</Code></Error>`
+
+  // 只实现插件用到的 ListObjectsV2、GetObject、HeadObject、PutObject、CopyObject 和 DeleteObject
+  function handle(req: IncomingMessage, body: Buffer) {
+    const url = new URL(req.url, 'http://localhost')
+    const [, bucket, ...segments] = url.pathname.split('/')
+    const key = segments.map(decodeURIComponent).join('/')
+    requests.push(`${req.method} /${key}`)
+    if (bucket !== BUCKET) return { status: 404, body: error('NoSuchBucket') }
+    if (!verify(req, body)) return { status: 403, body: error('SignatureDoesNotMatch') }
+
+    if (req.method === 'GET' && !key) {
+      const prefix = url.searchParams.get('prefix') || ''
+      const start = +(url.searchParams.get('continuation-token') || 0)
+      const keys = [...objects.keys()].filter(key => key.startsWith(prefix)).sort()
+      const files: string[] = []
+      const folders = new Set<string>()
+      for (const key of keys) {
+        const rest = key.slice(prefix.length)
+        if (rest.includes('/')) folders.add(prefix + rest.slice(0, rest.indexOf('/') + 1))
+        else files.push(key)
+      }
+      const page = files.slice(start, start + PAGE_SIZE)
+      const truncated = start + PAGE_SIZE < files.length
+      return {
+        status: 200,
+        body: '<ListBucketResult>'
+          + page.map(key => `<Contents><Key>${key}</Key><Size>${objects.get(key).data.length}</Size></Contents>`).join('')
+          + (start ? '' : [...folders].map(key => `<CommonPrefixes><Prefix>${key}</Prefix></CommonPrefixes>`).join(''))
+          + `<IsTruncated>${truncated}</IsTruncated>`
+          + (truncated ? `<NextContinuationToken>${start + PAGE_SIZE}</NextContinuationToken>` : '')
+          + '</ListBucketResult>',
+      }
+    }
+
+    if (req.method === 'PUT') {
+      const copySource = req.headers['x-amz-copy-source'] as string
+      if (copySource) {
+        const source = copySource.split('/').slice(2).map(decodeURIComponent).join('/')
+        if (!objects.has(source)) return { status: 404, body: error('NoSuchKey') }
+        objects.set(key, { ...objects.get(source) })
+      } else {
+        objects.set(key, { data: body, type: req.headers['content-type'] })
+      }
+      return { status: 200, body: '' }
+    }
+
+    if (req.method === 'DELETE') {
+      objects.delete(key)
+      return { status: 204, body: '' }
+    }
+
+    const object = objects.get(key)
+    if (!object) return { status: 404, body: req.method === 'HEAD' ? '' : error('NoSuchKey') }
+    const range = /^bytes=(\d+)-(\d+)$/.exec(req.headers.range || '')
+    const data = range ? object.data.subarray(+range[1], +range[2] + 1) : object.data
+    return {
+      status: range ? 206 : 200,
+      headers: { 'content-type': object.type, 'content-length': String(data.length), 'last-modified': new Date(0).toUTCString() },
+      body: req.method === 'HEAD' ? '' : data,
+    }
+  }
+
+  before(async () => {
+    server = createServer((req, res) => {
+      const chunks: Buffer[] = []
+      req.on('data', chunk => chunks.push(chunk))
+      req.on('end', () => {
+        const { status, headers, body } = handle(req, Buffer.concat(chunks))
+        res.writeHead(status, headers)
+        res.end(body)
+      })
+    })
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+
+    app = new App()
+    app.plugin(HTTP)
+    await app.start()
+    config = {
+      storage: 's3',
+      s3Endpoint: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+      s3Region: REGION,
+      s3Bucket: BUCKET,
+      s3AccessKeyId: ACCESS_KEY,
+      s3SecretAccessKey: SECRET_KEY,
+      s3ForcePathStyle: true,
+    } as Config
+    storage = new S3Storage(app, config)
+  })
+
+  after(async () => {
+    await app.stop()
+    await new Promise(resolve => server.close(resolve))
+  })
+
+  beforeEach(() => {
+    objects.clear()
+    requests.length = 0
+  })
+
+  it('writes, reads and stats objects', async () => {
+    await storage.write('gallery/猫图-mt/a b.png', Buffer.from('hello'))
+    expect(objects.get('gallery/猫图-mt/a b.png')).to.deep.equal({ data: Buffer.from('hello'), type: 'image/png' })
+    expect((await storage.read('gallery/猫图-mt/a b.png')).toString()).to.equal('hello')
+    expect((await storage.readHead('gallery/猫图-mt/a b.png', 2)).toString()).to.equal('he')
+    expect((await storage.stat('gallery/猫图-mt/a b.png')).size).to.equal(5)
+    expect(await storage.exists('gallery/猫图-mt/a b.png')).to.equal(true)
+  })
+
+  it('reports missing objects as ENOENT', async () => {
+    expect(await storage.exists('gallery/missing.png')).to.equal(false)
+    const error = await storage.read('gallery/missing.png').catch(error => error)
+    expect(error.code).to.equal('ENOENT')
+  })
+
+  it('lists files and folders across pages', async () => {
+    for (const name of ['a.png', 'b.png', 'c.png', 'sub/d.png']) {
+      await storage.write(`gallery/猫图-mt/${name}`, Buffer.from(name))
+    }
+    const entries = await storage.list('gallery/猫图-mt')
+    expect(entries).to.deep.equal([
+      { name: 'a.png', directory: false },
+      { name: 'b.png', directory: false },
+      { name: 'sub', directory: true },
+      { name: 'c.png', directory: false },
+    ])
+    expect(requests.filter(request => request === 'GET /')).to.have.length(2)
+  })
+
+  it('marks empty folders with zero-byte objects', async () => {
+    await storage.mkdir('gallery/狗图')
+    expect(objects.get('gallery/狗图/').data).to.have.length(0)
+    expect(await storage.list('gallery')).to.deep.equal([{ name: '狗图', directory: true }])
+    expect(await storage.list('gallery/狗图')).to.deep.equal([])
+    await storage.removeDir('gallery/狗图')
+    expect(await storage.list('gallery')).to.deep.equal([])
+  })
+
+  it('moves objects by copying and deleting', async () => {
+    await storage.write('temp/a.png', Buffer.from('a'))
+    await storage.move('temp/a.png', 'gallery/猫图-mt/a.png')
+    expect([...objects.keys()]).to.deep.equal(['gallery/猫图-mt/a.png'])
+    expect(requests).to.deep.equal(['PUT /temp/a.png', 'PUT /gallery/猫图-mt/a.png', 'DELETE /temp/a.png'])
+  })
+
+  it('fails when the signature does not match', async () => {
+    const wrong = new S3Storage(app, { ...config, s3SecretAccessKey: 'wrong' })
+    const error = await wrong.read('gallery/a.png').catch(error => error)
+    expect(error.message).to.include('SignatureDoesNotMatch')
+  })
+})
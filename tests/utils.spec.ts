@@ -0,0 +1,41 @@
+import { expect } from 'chai'
+
+import { renderFilename, sanitizeFilename } from '../src/utils'
+
+describe('renderFilename', () => {
+  const variables = {
+    userId: '123',
+    username: 'Alice',
+    guildId: '456',
+    channelId: '789',
+    timestamp: 1700000000000,
+    index: 2,
+    ext: '.png',
+  }
+
+  it('replaces all variables', () => {
+    const template = '${userId}-${username}-${guildId}-${channelId}-${timestamp}-${index}${ext}'
+    expect(renderFilename(template, variables)).to.equal('123-Alice-456-789-1700000000000-2.png')
+  })
+
+  it('formats date and time from the timestamp', () => {
+    expect(renderFilename('${date}', variables)).to.equal('2023-11-14')
+    expect(renderFilename('${time}', variables)).to.match(/^\d{2}-\d{2}-\d{2}$/)
+  })
+
+  it('uses placeholders for missing values', () => {
+    const filename = renderFilename('${guildId}-${userId}-${username}${ext}', { ...variables, guildId: '', userId: '', username: '' })
+    expect(filename).to.equal('private-unknown-unknown.png')
+  })
+
+  it('sanitizes the result', () => {
+    expect(renderFilename('${username}${ext}', { ...variables, username: '../a/b:c' })).to.equal('.._a_b_c.png')
+  })
+})
+
+describe('sanitizeFilename', () => {
+  it('replaces illegal characters and dot-only names', () => {
+    expect(sanitizeFilename('a<b>?.png')).to.equal('a_b__.png')
+    expect(sanitizeFilename('..')).to.equal('__')
+  })
+})